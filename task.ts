@@ -1,13 +1,263 @@
 
-import { Type, TSchema } from '@sinclair/typebox';
+import { Type, TSchema, Static } from '@sinclair/typebox';
+import { Value, ValueError, ValueErrorType } from '@sinclair/typebox/value';
 import ETL, { Event, SchemaType, handler as internal, local, DataFlowType, InvocationType } from '@tak-ps/etl';
-import { XMLParser } from 'fast-xml-parser';
-import { createHash } from 'crypto';
+import { XMLParser, XMLBuilder } from 'fast-xml-parser';
+import { X509Certificate, timingSafeEqual } from 'crypto';
+import { DOMParser, Element, XMLSerializer } from '@xmldom/xmldom';
+import { SignedXml } from 'xml-crypto';
+import hash from 'object-hash';
+
+const FilterList = <T extends TSchema>(values: T, description: string) => Type.Optional(Type.Object({
+    Allow: Type.Optional(Type.Array(values, {
+        description: 'Only keep alerts with one of these values'
+    })),
+    Deny: Type.Optional(Type.Array(values, {
+        description: 'Drop alerts with one of these values'
+    }))
+}, { description }));
+
+const Filter = Type.Object({
+    Status: FilterList(Type.Union(['Actual', 'Exercise', 'System', 'Test', 'Draft'].map(v => Type.Literal(v))), 'Filter by CAP status'),
+    Category: FilterList(Type.Union(['Geo', 'Met', 'Safety', 'Security', 'Rescue', 'Fire', 'Health', 'Env', 'Transport', 'Infra', 'CBRNE', 'Other'].map(v => Type.Literal(v))), 'Filter by CAP category'),
+    Urgency: FilterList(Type.Union(['Immediate', 'Expected', 'Future', 'Past', 'Unknown'].map(v => Type.Literal(v))), 'Filter by CAP urgency'),
+    Severity: FilterList(Type.Union(['Extreme', 'Severe', 'Moderate', 'Minor', 'Unknown'].map(v => Type.Literal(v))), 'Filter by CAP severity'),
+    Certainty: FilterList(Type.Union(['Observed', 'Likely', 'Possible', 'Unlikely', 'Unknown'].map(v => Type.Literal(v))), 'Filter by CAP certainty'),
+    Event: FilterList(Type.String(), 'Filter by CAP event name or eventCode value (case insensitive)'),
+    MinSeverity: Type.Optional(Type.Union([Type.Literal('Minor'), Type.Literal('Moderate'), Type.Literal('Severe'), Type.Literal('Extreme')], {
+        description: 'Drop alerts below this severity, Unknown severity counts as below Minor'
+    }))
+});
+
+const Source = Type.Object({
+    Label: Type.String({
+        description: 'Name of the alerting authority shown in feature metadata, e.g. MetService'
+    }),
+    URL: Type.String({
+        description: 'CAP RSS or Atom feed URL'
+    }),
+    Headers: Type.Optional(Type.Array(Type.Object({
+        key: Type.String(),
+        value: Type.String()
+    }), {
+        description: 'HTTP headers for this source, in addition to the global Headers'
+    })),
+    Filter: Type.Optional(Filter)
+});
 
 const Environment = Type.Object({
-    RSS_URL: Type.String({
-        description: 'CAP-NZ RSS or Atom feed URL'
+    RSS_URL: Type.Optional(Type.String({
+        description: 'CAP-NZ RSS or Atom feed URL, used when no Sources are configured'
+    })),
+    Sources: Type.Optional(Type.Array(Source, {
+        description: 'CAP feeds aggregated into this layer, alerts published by several sources are only shown once'
+    })),
+    Headers: Type.Optional(Type.Array(Type.Object({
+        key: Type.String(),
+        value: Type.String()
+    }))),
+    Timeout: Type.Number({
+        default: 30000,
+        description: 'Request timeout in milliseconds'
+    }),
+    Retries: Type.Number({
+        default: 2,
+        description: 'Number of retry attempts on failure'
+    }),
+    Concurrency: Type.Number({
+        default: 4,
+        minimum: 1,
+        description: 'Number of CAP alerts fetched in parallel'
+    }),
+    Deadline: Type.Number({
+        default: 240000,
+        description: 'Total time in milliseconds allowed for fetching CAP alerts in one run, alerts not fetched in time are skipped until the next run'
+    }),
+    WebhookToken: Type.Optional(Type.String({
+        description: 'Shared secret that pushed CAP alerts must send as a Bearer token in the Authorization header, pushes are refused until it is set'
+    })),
+    CircleVertices: Type.Number({
+        default: 64,
+        minimum: 8,
+        description: 'Number of vertices used to draw CAP circle areas as polygons'
+    }),
+    PolygonMode: Type.Union([
+        Type.Literal('Split'),
+        Type.Literal('Merge')
+    ], {
+        default: 'Split',
+        description: 'Split emits every polygon and circle of a CAP area as its own feature with its own marker, Merge emits them as a single MultiPolygon feature with one marker'
+    }),
+    LabelPlacement: Type.Union([
+        Type.Literal('Interior'),
+        Type.Literal('PoleOfInaccessibility'),
+        Type.Literal('Centroid')
+    ], {
+        default: 'Interior',
+        description: 'Where icon markers are placed on an area. Interior uses the centroid when it lies inside the area and the pole of inaccessibility otherwise, PoleOfInaccessibility always uses the interior point furthest from the outline, Centroid always uses the centroid even if it lies outside'
+    }),
+    LabelMarkers: Type.Union([
+        Type.Literal('Shape'),
+        Type.Literal('Part'),
+        Type.Literal('Alert')
+    ], {
+        default: 'Shape',
+        description: 'Emit one icon marker per area shape, per part of a MultiPolygon shape, or a single marker per alert on its largest area'
+    }),
+    SimplifyTolerance: Type.Number({
+        default: 0,
+        minimum: 0,
+        description: 'Drop polygon vertices that lie within this many metres of the simplified outline, 0 only removes duplicate vertices'
+    }),
+    MaxVertices: Type.Number({
+        default: 1000,
+        minimum: 0,
+        description: 'Simplify polygon rings with more vertices than this, 0 disables the limit'
+    }),
+    BoundaryURL: Type.Optional(Type.String({
+        description: 'URL of a GeoJSON FeatureCollection of boundaries (e.g. regional councils, territorial authorities, forecast areas) used to draw CAP areas that only carry a geocode'
+    })),
+    BoundaryProperties: Type.Optional(Type.Array(Type.Object({
+        valueName: Type.String({
+            description: 'CAP geocode valueName, e.g. TA'
+        }),
+        property: Type.String({
+            description: 'Boundary feature property holding the matching code'
+        })
+    }), {
+        description: 'Map CAP geocode valueNames to boundary feature properties. Unmapped geocodes are matched against a property of the same name'
+    })),
+    ExpiringWindow: Type.Number({
+        default: 3600000,
+        minimum: 0,
+        description: 'Alerts expiring within this many milliseconds are shown as expiring and drawn faded'
+    }),
+    ExpiredRetention: Type.Number({
+        default: 0,
+        minimum: 0,
+        description: 'Keep expired alerts as archived features for this many milliseconds after they expire, 0 drops them as soon as they expire'
+    }),
+    CancelMode: Type.Union([
+        Type.Literal('Remove'),
+        Type.Literal('Archive')
+    ], {
+        default: 'Remove',
+        description: 'How alerts referenced by a CAP Cancel message are handled - Remove expires them immediately, Archive keeps them as archived features'
     }),
+    Filter: Type.Optional(Filter),
+    AreaOfInterest: Type.Optional(Type.Object({
+        BBox: Type.Optional(Type.Array(Type.Number(), {
+            minItems: 4,
+            maxItems: 4,
+            description: 'Bounding box as [west, south, east, north] in decimal degrees'
+        })),
+        GeoJSON: Type.Optional(Type.String({
+            description: 'GeoJSON Polygon, MultiPolygon, Feature or FeatureCollection'
+        }))
+    }, {
+        description: 'Only emit alerts intersecting this area. Alerts without a known area are always emitted'
+    })),
+    TrustedCertificates: Type.Optional(Type.Array(Type.String(), {
+        description: 'PEM encoded trust anchor certificates. When set, alert signatures must use one of these certificates or a certificate issued by one'
+    })),
+    TrustedFingerprints: Type.Optional(Type.Array(Type.String(), {
+        description: 'SHA-256 fingerprints of accepted signing certificates'
+    })),
+    RequireValidSignature: Type.Boolean({
+        default: false,
+        description: 'Drop alerts whose signature is not valid, including unsigned alerts'
+    }),
+    Language: Type.Optional(Type.Array(Type.String(), {
+        description: 'Preferred CAP info languages in order of preference (e.g. en-NZ, mi). When set only the best matching language is emitted, otherwise every info block is emitted'
+    })),
+    Iconset: Type.Optional(Type.String({
+        description: 'UUID of the iconset icons are taken from, defaults to the TAK.NZ iconset'
+    })),
+    EventCodes: Type.Optional(Type.Array(Type.Object({
+        ValueName: Type.String({
+            description: 'eventCode valueName, e.g. OET:v1.2, OET:v1.x matches every version of the OASIS Event Terms list'
+        }),
+        Value: Type.String({
+            description: 'eventCode value, e.g. an OASIS Event Terms code'
+        }),
+        Event: Type.String({
+            description: 'CAP-NZ event code the eventCode stands for (e.g. strongWind)'
+        })
+    }), {
+        description: 'eventCode values of other code lists, such as the OASIS Event Terms, mapped to CAP-NZ event codes'
+    })),
+    Icons: Type.Optional(Type.Array(Type.Object({
+        Event: Type.String({
+            description: 'CAP-NZ event code (e.g. strongWind) or CAP event name (case insensitive)'
+        }),
+        Icon: Type.String({
+            description: 'Icon path within the iconset, or a full "<iconset uuid>:<path>" reference'
+        })
+    }), {
+        description: 'Extra or replacement event icons, taking precedence over the built-in icons'
+    })),
+    IconPatterns: Type.Optional(Type.Array(Type.Object({
+        Pattern: Type.String({
+            description: 'Regular expression matched case insensitively against the CAP event name and headline'
+        }),
+        Icon: Type.String({
+            description: 'Icon path within the iconset, or a full "<iconset uuid>:<path>" reference'
+        })
+    }), {
+        description: 'Icon rules checked in order before the built-in event matching'
+    })),
+    SeverityColors: Type.Optional(Type.Object({
+        Extreme: Type.Optional(Type.String()),
+        Severe: Type.Optional(Type.String()),
+        Moderate: Type.Optional(Type.String()),
+        Minor: Type.Optional(Type.String()),
+        Unknown: Type.Optional(Type.String())
+    }, {
+        description: 'Hex colour by CAP severity (e.g. #FF0000), used when an alert carries no ColourCode or ColourCodeHex parameter'
+    })),
+    CoTTypes: Type.Optional(Type.Array(Type.Object({
+        Event: Type.Optional(Type.String({
+            description: 'CAP-NZ event code or CAP event name (case insensitive)'
+        })),
+        Category: Type.Optional(Type.String()),
+        Severity: Type.Optional(Type.String()),
+        Geometry: Type.Optional(Type.Union([Type.Literal('Polygon'), Type.Literal('Point')], {
+            description: 'Only apply the rule to area shapes (Polygon) or to icon markers (Point)'
+        })),
+        Type: Type.String({
+            description: 'CoT type, e.g. a-h-X-i'
+        })
+    }), {
+        description: 'CoT type rules checked in order, the first rule whose given fields all match sets the CoT type of the features. Without a matching rule area shapes are u-d-f and markers a-<affiliation>-X-i with the affiliation taken from the CAP severity'
+    })),
+    Validation: Type.Union([Type.Literal('Lenient'), Type.Literal('Strict')], {
+        default: 'Lenient',
+        description: 'Strict drops every alert that does not conform to CAP 1.2. Lenient only drops alerts missing identifier, sender, sent or info and logs all other validation errors'
+    })
+});
+
+const OutgoingEnvironment = Type.Object({
+    Sender: Type.String({
+        description: 'CAP sender of issued alerts, e.g. ops@example.nz'
+    }),
+    SenderName: Type.String({
+        default: 'TAK',
+        description: 'Human readable name of the issuing agency'
+    }),
+    Status: Type.Union(['Actual', 'Exercise', 'System', 'Test', 'Draft'].map(v => Type.Literal(v)), {
+        default: 'Actual',
+        description: 'CAP status of issued alerts'
+    }),
+    Language: Type.String({
+        default: 'en-NZ',
+        description: 'CAP language of issued alerts'
+    }),
+    SinkURL: Type.Optional(Type.String({
+        description: 'Every issued CAP alert is POSTed to this URL as application/cap+xml'
+    })),
+    FeedURL: Type.Optional(Type.String({
+        description: 'An Atom feed embedding all active issued CAP alerts is PUT to this URL after every change'
+    })),
     Headers: Type.Optional(Type.Array(Type.Object({
         key: Type.String(),
         value: Type.String()
@@ -22,7 +272,227 @@ const Environment = Type.Object({
     })
 });
 
-type SupportedGeometry = { type: 'Point'; coordinates: number[] } | { type: 'LineString'; coordinates: number[][] } | { type: 'Polygon'; coordinates: number[][][] };
+// CAP 1.2 alert structure as returned by fast-xml-parser, elements that may repeat are either a value or an array
+const Repeated = <T extends TSchema>(schema: T) => Type.Optional(Type.Union([schema, Type.Array(schema)]));
+const CAPText = Type.String({ minLength: 1 });
+const CAPDateTime = Type.String({
+    pattern: '^\\d{4}-\\d{2}-\\d{2}T\\d{2}:\\d{2}:\\d{2}[-+]\\d{2}:\\d{2}$',
+    description: 'a date and time with explicit offset, e.g. 2026-01-01T09:00:00+13:00'
+});
+const CAPIdentifier = Type.String({
+    pattern: '^[^\\s,<&]+$',
+    description: 'a non-empty value without spaces, commas, < or &'
+});
+const CAPNumber = Type.String({
+    pattern: '^-?\\d+(\\.\\d+)?$',
+    description: 'a number'
+});
+const CAPCategory = Type.Union(['Geo', 'Met', 'Safety', 'Security', 'Rescue', 'Fire', 'Health', 'Env', 'Transport', 'Infra', 'CBRNE', 'Other'].map(v => Type.Literal(v)));
+const CAPValuePair = Type.Object({
+    valueName: Type.String(),
+    value: Type.String()
+});
+
+const CAPAreaSchema = Type.Object({
+    areaDesc: CAPText,
+    polygon: Repeated(Type.String({
+        pattern: '^\\s*(-?\\d+(\\.\\d+)?,-?\\d+(\\.\\d+)?\\s+){3,}-?\\d+(\\.\\d+)?,-?\\d+(\\.\\d+)?\\s*$',
+        description: 'at least four space separated "latitude,longitude" pairs'
+    })),
+    circle: Repeated(Type.String({
+        pattern: '^\\s*-?\\d+(\\.\\d+)?,-?\\d+(\\.\\d+)?\\s+\\d+(\\.\\d+)?\\s*$',
+        description: 'a "latitude,longitude radius" triple with the radius in kilometres'
+    })),
+    geocode: Repeated(CAPValuePair),
+    altitude: Type.Optional(CAPNumber),
+    ceiling: Type.Optional(CAPNumber)
+});
+
+const CAPInfoSchema = Type.Object({
+    language: Type.Optional(Type.String()),
+    category: Type.Union([CAPCategory, Type.Array(CAPCategory, { minItems: 1 })]),
+    event: CAPText,
+    responseType: Repeated(Type.Union(['Shelter', 'Evacuate', 'Prepare', 'Execute', 'Avoid', 'Monitor', 'Assess', 'AllClear', 'None'].map(v => Type.Literal(v)))),
+    urgency: Type.Union(['Immediate', 'Expected', 'Future', 'Past', 'Unknown'].map(v => Type.Literal(v))),
+    severity: Type.Union(['Extreme', 'Severe', 'Moderate', 'Minor', 'Unknown'].map(v => Type.Literal(v))),
+    certainty: Type.Union(['Observed', 'Likely', 'Possible', 'Unlikely', 'Unknown'].map(v => Type.Literal(v))),
+    audience: Type.Optional(Type.String()),
+    eventCode: Repeated(CAPValuePair),
+    effective: Type.Optional(CAPDateTime),
+    onset: Type.Optional(CAPDateTime),
+    expires: Type.Optional(CAPDateTime),
+    senderName: Type.Optional(Type.String()),
+    headline: Type.Optional(Type.String()),
+    description: Type.Optional(Type.String()),
+    instruction: Type.Optional(Type.String()),
+    web: Type.Optional(Type.String()),
+    contact: Type.Optional(Type.String()),
+    parameter: Repeated(CAPValuePair),
+    resource: Repeated(Type.Object({
+        resourceDesc: CAPText,
+        mimeType: CAPText
+    })),
+    area: Repeated(CAPAreaSchema)
+});
+
+const CAPAlertSchema = Type.Object({
+    identifier: CAPIdentifier,
+    sender: CAPIdentifier,
+    sent: CAPDateTime,
+    status: Type.Union(['Actual', 'Exercise', 'System', 'Test', 'Draft'].map(v => Type.Literal(v))),
+    msgType: Type.Union(['Alert', 'Update', 'Cancel', 'Ack', 'Error'].map(v => Type.Literal(v))),
+    source: Type.Optional(Type.String()),
+    scope: Type.Union(['Public', 'Restricted', 'Private'].map(v => Type.Literal(v))),
+    restriction: Type.Optional(Type.String()),
+    addresses: Type.Optional(Type.String()),
+    code: Repeated(Type.String()),
+    note: Type.Optional(Type.String()),
+    references: Type.Optional(Type.String()),
+    incidents: Type.Optional(Type.String()),
+    info: Repeated(CAPInfoSchema)
+});
+
+type SupportedGeometry = { type: 'Point'; coordinates: number[] }
+    | { type: 'LineString'; coordinates: number[][] }
+    | { type: 'Polygon'; coordinates: number[][][] }
+    | { type: 'MultiPolygon'; coordinates: number[][][][] };
+
+// Element as returned by fast-xml-parser, its children are narrowed with xmlText and xmlNodes
+type XMLNode = Record<string, unknown>;
+
+type Feature = {
+    id: string;
+    type: 'Feature';
+    properties: Record<string, unknown>;
+    geometry: SupportedGeometry;
+};
+
+interface CAPArea {
+    areaDesc: string;
+    polygon: string[];
+    circle: string[];
+    geocode: Array<{ valueName: string; value: string }>;
+    altitude?: number;
+    ceiling?: number;
+}
+
+interface CAPInfo {
+    language: string;
+    category: string[];
+    event: string;
+    urgency: string;
+    severity: string;
+    certainty: string;
+    senderName: string;
+    headline: string;
+    description: string;
+    instruction?: string;
+    responseType: string[];
+    effective?: string;
+    onset?: string;
+    expires?: string;
+    web?: string;
+    eventCode: Array<{ valueName: string; value: string }>;
+    parameter: Array<{ valueName: string; value: string }>;
+    area: CAPArea[];
+    colorCode?: string;
+}
+
+interface CertificateInfo {
+    subject: string;
+    issuer: string;
+    serialNumber: string;
+    validFrom: string;
+    validUntil: string;
+    keyUsage: string[];
+    extKeyUsage: string[];
+    fingerprint: string;
+}
+
+type SignatureStatus = 'valid' | 'invalid' | 'unsigned' | 'expired' | 'untrusted';
+
+interface HTTPEvent {
+    body?: string | null;
+    isBase64Encoded?: boolean;
+    headers?: Record<string, string | undefined>;
+    httpMethod?: string;
+    requestContext?: {
+        http?: {
+            method?: string;
+        };
+    };
+}
+
+interface HTTPResponse {
+    statusCode: number;
+    headers: Record<string, string>;
+    body: string;
+}
+
+interface IssuedAlert {
+    identifier: string;
+    sent: string;
+    references?: string;
+    expires?: string;
+    headline: string;
+    xml: string;
+    // Cancel kept in the feed until the alert it cancels would have expired
+    cancelled?: boolean;
+}
+
+interface ValidationIssue {
+    // JSON pointer into the alert, e.g. /info/0/severity
+    path: string;
+    message: string;
+}
+
+interface ParsedAlert {
+    // null when the document could not be read as a CAP alert at all
+    alert: CAPAlert | null;
+    errors: ValidationIssue[];
+}
+
+interface RejectedAlert {
+    source: string;
+    url: string;
+    errors: ValidationIssue[];
+}
+
+type LifecycleState = 'pending' | 'active' | 'expiring' | 'expired';
+
+interface FeedEntry {
+    id: string;
+    url?: string;
+    updated?: string;
+    // Expired alert no longer listed by its feed, kept from the cache for the retention window
+    retained?: boolean;
+    // Entry embedding its CAP alerts instead of linking them, read like a fetched CAP document
+    xml?: string;
+}
+
+interface FetchCache {
+    version: number;
+    // Keyed by feed URL
+    feeds: Record<string, {
+        etag?: string;
+        lastModified?: string;
+        entries: FeedEntry[];
+    }>;
+    // Keyed by alert URL, or entry ID for inline alerts
+    alerts: Record<string, {
+        etag?: string;
+        lastModified?: string;
+        updated?: string;
+        hash: string;
+        // Every CAP alert of the document, an envelope such as EDXL-DE may wrap several
+        alerts: ParsedAlert[];
+    }>;
+    // Keyed by alert identifier, the identifier of the first alert of its Update/Cancel chain
+    chain: Record<string, {
+        root: string;
+        alert: CAPAlert;
+    }>;
+}
 
 interface CAPAlert {
     identifier: string;
@@ -31,39 +501,22 @@ interface CAPAlert {
     status: string;
     msgType: string;
     scope: string;
-    info: {
-        category: string;
-        event: string;
-        urgency: string;
-        severity: string;
-        certainty: string;
-        senderName: string;
-        headline: string;
-        description: string;
-        instruction?: string;
-        responseType?: string;
-        onset?: string;
-        expires?: string;
-        web?: string;
-        area: {
-            areaDesc: string;
-            polygon?: string | string[];
-            circle?: string;
-        };
-        colorCode?: string;
-    };
-    signature?: {
-        issuer?: string;
-        subject?: string;
-        validUntil?: string;
-        fingerprint?: string;
-    };
+    // CAP version taken from the alert namespace
+    version: string;
+    // Label of the feed the alert was taken from, not part of CAP
+    source?: string;
+    references: Array<{ sender: string; identifier: string; sent: string }>;
+    info: CAPInfo[];
+    signature: {
+        status: SignatureStatus;
+        certificate?: string;
+    } & Partial<CertificateInfo>;
 }
 
 export default class Task extends ETL {
     static name = 'etl-capnz';
-    static flow = [ DataFlowType.Incoming ];
-    static invocation = [ InvocationType.Schedule ];
+    static flow = [ DataFlowType.Incoming, DataFlowType.Outgoing ];
+    static invocation = [ InvocationType.Schedule, InvocationType.Webhook ];
 
     private static readonly CATEGORY_MAP: Record<string, string> = {
         'Geo': 'Geophysical (including landslide)',
@@ -172,12 +625,59 @@ export default class Task extends ETL {
         'waterspout': 'NaturalHazards/NH.16.Tornado.png'
     };
 
-    private static readonly CERT_DEFAULTS = {
-        ISSUER: 'cap.metservice.com',
-        SUBJECT: 'METEOROLOGICAL SERVICE OF NEW ZEALAND LIMITED',
-        VALID_UNTIL: '2025-10-23'
+    // CoT affiliation of alert markers by CAP severity
+    private static readonly SEVERITY_AFFILIATION: Record<string, string> = {
+        'Extreme': 'h',
+        'Severe': 'h',
+        'Moderate': 's',
+        'Minor': 'n',
+        'Unknown': 'u'
+    };
+
+    // Styling applied to area shapes on top of the alert colour for each lifecycle state
+    private static readonly LIFECYCLE_STYLE: Record<LifecycleState, Record<string, unknown>> = {
+        'pending': { 'stroke-style': 'dashed', 'fill-opacity': 0.15 },
+        'active': {},
+        'expiring': { 'stroke-opacity': 0.3, 'fill-opacity': 0.2 },
+        'expired': { 'stroke-style': 'dotted', 'stroke-opacity': 0.3, 'fill-opacity': 0.1 }
+    };
+
+    // CAP versions by XML namespace, alerts without a namespace are read as CAP 1.2
+    private static readonly CAP_NAMESPACES: Record<string, string> = {
+        'urn:oasis:names:tc:emergency:cap:1.2': '1.2',
+        'urn:oasis:names:tc:emergency:cap:1.1': '1.1',
+        'http://www.incident.com/cap/1.0': '1.0'
     };
 
+    private static readonly KEY_USAGE = [
+        'digitalSignature',
+        'nonRepudiation',
+        'keyEncipherment',
+        'dataEncipherment',
+        'keyAgreement',
+        'keyCertSign',
+        'cRLSign',
+        'encipherOnly',
+        'decipherOnly'
+    ];
+
+    private static readonly SIGNATURE_STATUS: Record<SignatureStatus, string> = {
+        'valid': 'Valid',
+        'invalid': 'Invalid - signature does not match the alert',
+        'unsigned': 'Unsigned',
+        'expired': 'Expired certificate',
+        'untrusted': 'Untrusted certificate'
+    };
+
+    // Bump whenever the shape of a cached CAPAlert changes
+    private static readonly CACHE_VERSION = 12;
+
+    // Boundary lookup is kept between warm invocations as the dataset rarely changes
+    private static boundaries: {
+        url: string;
+        features: Array<{ properties: Record<string, unknown>; polygons: number[][][][] }>;
+    } | null = null;
+
     private getCategoryDescription(categoryCode: string): string {
         return Task.CATEGORY_MAP[categoryCode] || categoryCode || 'Unknown';
     }
@@ -186,22 +686,68 @@ export default class Task extends ETL {
         return Task.EVENT_MAP[eventCode] || eventCode || 'Unknown';
     }
 
-    private getEventIcon(eventType: string, category?: string, severity?: string, headline?: string): string {
-        if (category === 'Health') {
-            return `${Task.ICON_PREFIX}Incidents/INC.60.GHS08.HealthHazard.png`;
+    private getEventKey(info: CAPInfo, env: Static<typeof Environment>): string | undefined {
+        // eventCode values such as the CAP-NZ event codes identify the event exactly, unlike the free text event name
+        const keys = [...Object.keys(Task.EVENT_MAP), ...Object.keys(Task.ICON_MAP)];
+        const find = (value: string) => keys.find(k => k.toLowerCase() === value.trim().toLowerCase());
+        
+        // Codes of other lists are looked up by their list, every version of the OASIS Event Terms shares its codes
+        const list = (valueName: string) => valueName.trim().toUpperCase().replace(/^OET:V1\.\d+$/, 'OET:V1.X');
+        for (const code of info.eventCode) {
+            const mapped = (env.EventCodes || []).find(c => list(c.ValueName) === list(code.valueName) && c.Value.trim() === code.value.trim());
+            const key = mapped ? find(mapped.Event) : find(code.value);
+            if (key) return key;
+        }
+        
+        return undefined;
+    }
+
+    private getEventIcon(info: CAPInfo, env: Static<typeof Environment>): string {
+        const { event: eventType, category, severity, headline } = info;
+        const eventKey = this.getEventKey(info, env);
+        
+        // Icons without an iconset are taken from the configured iconset
+        const prefix = env.Iconset ? `${env.Iconset.replace(/:$/, '')}:` : Task.ICON_PREFIX;
+        const icon = (file: string) => file.includes(':') ? file : `${prefix}${file}`;
+        
+        // Configured icons replace built-in icons of the same event, also when found through the built-in patterns
+        const normalize = (value: string) => value.toLowerCase().replace(/[\s-]+/g, '');
+        const custom = new Map((env.Icons || []).map(i => [normalize(i.Event), i.Icon]));
+        const iconFile = (key: string) => custom.get(normalize(key)) || Task.ICON_MAP[key];
+        
+        if (eventKey && iconFile(eventKey)) {
+            return icon(iconFile(eventKey));
+        }
+        
+        if (eventType && custom.has(normalize(eventType))) {
+            return icon(custom.get(normalize(eventType)) as string);
+        }
+        
+        for (const rule of env.IconPatterns || []) {
+            try {
+                const pattern = new RegExp(rule.Pattern, 'i');
+                if (pattern.test(eventType || '') || pattern.test(headline || '')) {
+                    return icon(rule.Icon);
+                }
+            } catch {
+                console.warn(`Ignoring invalid icon pattern ${rule.Pattern}`);
+            }
         }
-        if (category === 'Fire') {
-            return `${Task.ICON_PREFIX}Incidents/INC.35.Fire.png`;
+        
+        if (category.includes('Health')) {
+            return icon('Incidents/INC.60.GHS08.HealthHazard.png');
+        }
+        if (category.includes('Fire')) {
+            return icon('Incidents/INC.35.Fire.png');
         }
         
         // Handle empty or undefined eventType
         if (!eventType || typeof eventType !== 'string') {
-            const iconFile = Task.DEFAULT_ICON;
-            return `${Task.ICON_PREFIX}${iconFile}`;
+            return icon(Task.DEFAULT_ICON);
         }
         
-        const normalized = eventType.toLowerCase().replace(/[\s-]+/g, '');
-        const headlineNormalized = headline ? headline.toLowerCase().replace(/[\s-]+/g, '') : '';
+        const normalized = normalize(eventType);
+        const headlineNormalized = headline ? normalize(headline) : '';
         
         // Pattern matching for event types
         const patterns: Record<string, string> = {
@@ -225,31 +771,53 @@ export default class Task extends ETL {
         
         for (const [pattern, key] of Object.entries(patterns)) {
             if (pattern.split('|').some(p => normalized.includes(p) || headlineNormalized.includes(p))) {
-                const iconFile = Task.ICON_MAP[key] || Task.DEFAULT_ICON;
-                return `${Task.ICON_PREFIX}${iconFile}`;
+                return icon(iconFile(key) || Task.DEFAULT_ICON);
             }
         }
         
         // Try direct lookup with normalized event
         const directLookup = Task.ICON_MAP[normalized] || Task.ICON_MAP[eventType.toLowerCase()];
         if (directLookup) {
-            return `${Task.ICON_PREFIX}${directLookup}`;
+            return icon(directLookup);
         }
         
         // Fallback to severity-based icons for Met/Geo categories
-        if (category === 'Met' || category === 'Geo') {
+        if (category.includes('Met') || category.includes('Geo')) {
             if (severity === 'Severe' || severity === 'Extreme') {
-                return `${Task.ICON_PREFIX}Incidents/INC.38.NaturalDisaster1.Urgent.png`;
+                return icon('Incidents/INC.38.NaturalDisaster1.Urgent.png');
             }
             if (severity === 'Moderate') {
-                return `${Task.ICON_PREFIX}Incidents/INC.39.NaturalDisaster2.NonUrgent.png`;
+                return icon('Incidents/INC.39.NaturalDisaster2.NonUrgent.png');
             }
             if (severity === 'Minor') {
-                return `${Task.ICON_PREFIX}Incidents/INC.40.NaturalDisaster3.InformationOnly.png`;
+                return icon('Incidents/INC.40.NaturalDisaster3.InformationOnly.png');
             }
         }
         
-        return `${Task.ICON_PREFIX}${Task.DEFAULT_ICON}`;
+        return icon(Task.DEFAULT_ICON);
+    }
+
+    private getColor(info: CAPInfo, env: Static<typeof Environment>): string | undefined {
+        const severity = (info.severity || 'Unknown') as keyof NonNullable<Static<typeof Environment>['SeverityColors']>;
+        return info.colorCode || env.SeverityColors?.[severity] || undefined;
+    }
+
+    private getCoTType(info: CAPInfo, env: Static<typeof Environment>, geometry: 'Polygon' | 'Point'): string {
+        const eventKey = this.getEventKey(info, env);
+        const matches = (expected: string | undefined, ...values: Array<string | undefined>) => !expected
+            || values.some(value => value !== undefined && value.toLowerCase() === expected.toLowerCase());
+        
+        const rule = (env.CoTTypes || []).find(rule => matches(rule.Event, info.event, eventKey)
+            && matches(rule.Category, ...info.category)
+            && matches(rule.Severity, info.severity)
+            && (!rule.Geometry || rule.Geometry === geometry));
+        
+        if (rule) {
+            return rule.Type;
+        }
+        
+        // Area shapes are drawn as freeform shapes, markers are incidents whose affiliation follows the severity
+        return geometry === 'Polygon' ? 'u-d-f' : `a-${Task.SEVERITY_AFFILIATION[info.severity] || 'u'}-X-i`;
     }
 
     private parsePolygonString(polygonStr: string): number[][][] {
@@ -292,7 +860,8 @@ export default class Task extends ETL {
                 continue;
             }
             
-            if (lat < -90 || lat > 90 || lon < -180 || lon > 180) {
+            // Longitudes past 180 are accepted for areas east of the antimeridian such as the Chatham Islands
+            if (lat < -90 || lat > 90 || lon <= -360 || lon > 360) {
                 invalidPairs.push(pair);
                 continue;
             }
@@ -337,8 +906,290 @@ export default class Task extends ETL {
         return null;
     }
 
+    private circleToPolygon(center: number[], radius: number, vertices: number): number[][][] {
+        // Mean earth radius in km - CAP circle radii are given in km
+        const R = 6371.0088;
+        const distance = radius / R;
+        const lon1 = center[0] * Math.PI / 180;
+        const lat1 = center[1] * Math.PI / 180;
+        
+        const points: number[][] = [];
+        for (let i = 0; i < vertices; i++) {
+            // Destination point along a great circle for each bearing
+            const bearing = 2 * Math.PI * i / vertices;
+            const lat2 = Math.asin(Math.sin(lat1) * Math.cos(distance) + Math.cos(lat1) * Math.sin(distance) * Math.cos(bearing));
+            const lon2 = lon1 + Math.atan2(Math.sin(bearing) * Math.sin(distance) * Math.cos(lat1), Math.cos(distance) - Math.sin(lat1) * Math.sin(lat2));
+            
+            // Longitudes are left continuous, circles crossing the antimeridian are split afterwards
+            points.push([
+                lon2 * 180 / Math.PI,
+                lat2 * 180 / Math.PI
+            ]);
+        }
+        
+        // Counter-clockwise exterior ring, closed
+        points.reverse();
+        points.push([...points[0]]);
+        
+        return [points];
+    }
+
+    private normalizeLongitude(lon: number): number {
+        return lon >= -180 && lon <= 180 ? lon : ((lon + 540) % 360) - 180;
+    }
+
+    private unwrapRing(ring: number[][]): number[][] {
+        // Keep every edge shorter than 180° of longitude so rings crossing the antimeridian stay continuous
+        const unwrapped: number[][] = [];
+        for (const [lon, lat] of ring) {
+            let x = unwrapped.length ? lon : this.normalizeLongitude(lon);
+            const previous = unwrapped.length ? unwrapped[unwrapped.length - 1][0] : x;
+            while (x - previous > 180) x -= 360;
+            while (x - previous < -180) x += 360;
+            unwrapped.push([x, lat]);
+        }
+        
+        return unwrapped;
+    }
+
+    private splitAntimeridian(polygon: number[][][]): number[][][][] {
+        let [outer, ...holes] = polygon.map(ring => this.unwrapRing(ring));
+        
+        // Holes are unwrapped on their own, move them next to the outer ring they belong to
+        const center = (ring: number[][]) => (Math.min(...ring.map(p => p[0])) + Math.max(...ring.map(p => p[0]))) / 2;
+        const shift = (ring: number[][], offset: number) => ring.map(([x, y]) => [x + offset, y]);
+        holes = holes.map(hole => shift(hole, Math.round((center(outer) - center(hole)) / 360) * 360));
+        
+        const xs = outer.map(p => p[0]);
+        if (Math.min(...xs) >= -180 && Math.max(...xs) <= 180) {
+            return [[outer, ...holes]];
+        }
+        
+        // Shift the rings so they cross at +180, then clip them into a western and an eastern part
+        if (Math.min(...xs) < -180) {
+            [outer, ...holes] = [outer, ...holes].map(ring => shift(ring, 360));
+        }
+        
+        const clip = (ring: number[][], keep: (x: number) => boolean, offset: number): number[][] => {
+            const part: number[][] = [];
+            for (let i = 0; i < ring.length - 1; i++) {
+                const [a, b] = [ring[i], ring[i + 1]];
+                if (keep(a[0])) part.push([a[0] + offset, a[1]]);
+                if (keep(a[0]) !== keep(b[0])) {
+                    const t = (180 - a[0]) / (b[0] - a[0]);
+                    part.push([180 + offset, a[1] + t * (b[1] - a[1])]);
+                }
+            }
+            if (part.length) part.push([...part[0]]);
+            return part;
+        };
+        
+        // Every hole goes to the part it lies in, a hole crossing the antimeridian is split with the outer ring
+        const sides: Array<[(x: number) => boolean, number]> = [[x => x <= 180, 0], [x => x >= 180, -360]];
+        return sides
+            .map(([keep, offset]) => [outer, ...holes].map(ring => clip(ring, keep, offset)))
+            .filter(([part]) => part.length >= 4)
+            .map(([part, ...parts]) => [part, ...parts.filter(hole => hole.length >= 4)]);
+    }
+
+    private simplifyRing(ring: number[][], tolerance: number, maxVertices: number): number[][] {
+        // Distances are measured in metres on a local equirectangular projection
+        const latitude = ring.reduce((sum, p) => sum + p[1], 0) / ring.length * Math.PI / 180;
+        const project = (p: number[]) => [p[0] * 111320 * Math.cos(latitude), p[1] * 110540];
+        const points = ring.map(project);
+        
+        const distance = (p: number[], a: number[], b: number[]) => {
+            const [dx, dy] = [b[0] - a[0], b[1] - a[1]];
+            const t = dx || dy ? Math.max(0, Math.min(1, ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / (dx * dx + dy * dy))) : 0;
+            return Math.hypot(p[0] - a[0] - t * dx, p[1] - a[1] - t * dy);
+        };
+        
+        // Douglas-Peucker, recording for every vertex the distance at which it is kept
+        const importance = new Array(ring.length).fill(0);
+        importance[0] = importance[ring.length - 1] = Infinity;
+        const stack: Array<[number, number]> = [[0, ring.length - 1]];
+        while (stack.length) {
+            const [first, last] = stack.pop() as [number, number];
+            let index = -1;
+            let max = -1;
+            for (let i = first + 1; i < last; i++) {
+                const d = distance(points[i], points[first], points[last]);
+                if (d > max) {
+                    max = d;
+                    index = i;
+                }
+            }
+            if (index === -1) continue;
+            
+            importance[index] = max;
+            stack.push([first, index], [index, last]);
+        }
+        
+        // A ring needs at least three distinct vertices besides the closing one
+        let threshold = tolerance;
+        if (maxVertices && ring.length > maxVertices) {
+            const ranked = [...importance].sort((a, b) => b - a);
+            threshold = Math.max(threshold, ranked[Math.max(maxVertices, 4) - 1]);
+        }
+        const minimum = [...importance].sort((a, b) => b - a)[3];
+        threshold = Math.min(threshold, minimum);
+        
+        return ring.filter((_, i) => importance[i] >= threshold && (importance[i] > 0 || threshold === 0));
+    }
+
+    private untangleRing(ring: number[][]): { ring: number[][]; repaired: boolean } {
+        const points = ring.slice(0, -1);
+        const n = points.length;
+        const cross = (o: number[], p: number[], q: number[]) => (p[0] - o[0]) * (q[1] - o[1]) - (p[1] - o[1]) * (q[0] - o[0]);
+        
+        // Reversing the vertices between two crossing edges removes the crossing (2-opt), bow ties become simple rings
+        let repaired = false;
+        for (let pass = 0; pass < 100; pass++) {
+            let crossing: [number, number] | null = null;
+            for (let i = 0; i < n && !crossing; i++) {
+                for (let j = i + 2; j < n; j++) {
+                    if (i === 0 && j === n - 1) continue;
+                    
+                    const [p1, p2, q1, q2] = [points[i], points[i + 1], points[j], points[(j + 1) % n]];
+                    if (cross(p1, p2, q1) * cross(p1, p2, q2) < 0 && cross(q1, q2, p1) * cross(q1, q2, p2) < 0) {
+                        crossing = [i, j];
+                        break;
+                    }
+                }
+            }
+            if (!crossing) break;
+            
+            const [i, j] = crossing;
+            points.splice(i + 1, j - i, ...points.slice(i + 1, j + 1).reverse());
+            repaired = true;
+        }
+        
+        return { ring: [...points, [...points[0]]], repaired };
+    }
+
+    private cleanPolygon(polygon: number[][][], env: Static<typeof Environment>): { coordinates: number[][][]; metadata: Record<string, unknown> } {
+        let repaired = false;
+        const coordinates = polygon.map((original, index) => {
+            // Work on continuous longitudes so rings crossing the antimeridian are not torn apart
+            const unwrapped = this.unwrapRing(original);
+            
+            // Drop repeated vertices, the ring is closed again below
+            let ring = unwrapped.filter((p, i) => i === 0 || p[0] !== unwrapped[i - 1][0] || p[1] !== unwrapped[i - 1][1]);
+            if (ring.length > 1 && ring[0][0] === ring[ring.length - 1][0] && ring[0][1] === ring[ring.length - 1][1]) {
+                ring.pop();
+            }
+            if (ring.length < 3) return [];
+            ring.push([...ring[0]]);
+            
+            ring = this.simplifyRing(ring, env.SimplifyTolerance, env.MaxVertices);
+            
+            const untangled = this.untangleRing(ring);
+            repaired = repaired || untangled.repaired;
+            ring = untangled.ring;
+            
+            // RFC 7946 winding, exterior rings counter-clockwise and holes clockwise
+            let area = 0;
+            for (let i = 0; i < ring.length - 1; i++) {
+                area += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+            }
+            if ((area < 0) === (index === 0)) ring.reverse();
+            
+            return ring;
+        }).filter(ring => ring.length >= 4);
+        
+        const originalVertices = polygon.reduce((sum, ring) => sum + ring.length, 0);
+        const vertices = coordinates.reduce((sum, ring) => sum + ring.length, 0);
+        return {
+            coordinates,
+            metadata: {
+                originalVertices,
+                ...(vertices !== originalVertices ? { vertices } : {}),
+                ...(repaired ? { repaired: true } : {})
+            }
+        };
+    }
+
+    private ringArea(ring: number[][]): number {
+        let area = 0;
+        for (let i = 0; i < ring.length - 1; i++) {
+            area += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+        }
+        return Math.abs(area) / 2;
+    }
+
+    private poleOfInaccessibility(polygon: number[][][]): number[] {
+        // Polylabel: subdivide cells of the bounding box, keeping the point furthest from the outline
+        const xs = polygon[0].map(p => p[0]);
+        const ys = polygon[0].map(p => p[1]);
+        const [minX, minY, maxX, maxY] = [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)];
+        const size = Math.min(maxX - minX, maxY - minY);
+        if (size <= 0) {
+            return [minX, minY];
+        }
+        
+        // Signed distance to the nearest edge, positive inside the polygon
+        const distance = (x: number, y: number): number => {
+            let min = Infinity;
+            for (const ring of polygon) {
+                for (let i = 0; i < ring.length - 1; i++) {
+                    const [a, b] = [ring[i], ring[i + 1]];
+                    const [dx, dy] = [b[0] - a[0], b[1] - a[1]];
+                    const t = dx || dy ? Math.max(0, Math.min(1, ((x - a[0]) * dx + (y - a[1]) * dy) / (dx * dx + dy * dy))) : 0;
+                    min = Math.min(min, Math.hypot(x - a[0] - t * dx, y - a[1] - t * dy));
+                }
+            }
+            return this.pointInPolygon([x, y], polygon) ? min : -min;
+        };
+        
+        type Cell = { x: number; y: number; h: number; d: number; max: number };
+        const cell = (x: number, y: number, h: number): Cell => {
+            const d = distance(x, y);
+            return { x, y, h, d, max: d + h * Math.SQRT2 };
+        };
+        
+        const cells: Cell[] = [];
+        for (let x = minX; x < maxX; x += size) {
+            for (let y = minY; y < maxY; y += size) {
+                cells.push(cell(x + size / 2, y + size / 2, size / 2));
+            }
+        }
+        
+        const centroid = this.calculatePolygonCentroid([polygon[0]]);
+        let best = cell(centroid[0], centroid[1], 0);
+        const precision = Math.max(maxX - minX, maxY - minY) / 1000;
+        for (let iteration = 0; cells.length && iteration < 10000; iteration++) {
+            // Take the cell that could still hold the best point
+            const index = cells.reduce((top, c, i) => c.max > cells[top].max ? i : top, 0);
+            const [current] = cells.splice(index, 1);
+            if (current.d > best.d) best = current;
+            if (current.max - best.d <= precision) continue;
+            
+            const h = current.h / 2;
+            cells.push(cell(current.x - h, current.y - h, h), cell(current.x + h, current.y - h, h), cell(current.x - h, current.y + h, h), cell(current.x + h, current.y + h, h));
+        }
+        
+        return [best.x, best.y];
+    }
+
+    private labelPoint(polygon: number[][][], env: Static<typeof Environment>): number[] {
+        const centroid = this.calculatePolygonCentroid(polygon);
+        if (env.LabelPlacement === 'Centroid') {
+            return centroid;
+        }
+        
+        // Both are computed on continuous longitudes, the centroid may be on either side of the antimeridian
+        const unwrapped = polygon.map(ring => this.unwrapRing(ring));
+        if (env.LabelPlacement === 'Interior' && [0, 360, -360].some(offset => this.pointInPolygon([centroid[0] + offset, centroid[1]], unwrapped))) {
+            return centroid;
+        }
+        
+        const [x, y] = this.poleOfInaccessibility(unwrapped);
+        return [this.normalizeLongitude(x), y];
+    }
+
     private calculatePolygonCentroid(coordinates: number[][][]): number[] {
-        const points = coordinates[0];
+        // Computed on the unwrapped ring so areas crossing the antimeridian don't end up in the other hemisphere
+        const points = this.unwrapRing(coordinates[0]);
         if (points.length < 3) {
             return [0, 0]; // Fallback for invalid polygon
         }
@@ -368,516 +1219,1840 @@ export default class Task extends ETL {
                 x += point[0];
                 y += point[1];
             }
-            return [x / points.length, y / points.length];
+            return [this.normalizeLongitude(x / points.length), y / points.length];
         }
         
         cx /= (6 * area);
         cy /= (6 * area);
         
-        return [cx, cy];
+        return [this.normalizeLongitude(cx), cy];
     }
 
 
 
-    private async fetchWithRetry(url: URL, headers: Record<string, string>, timeout: number, retries: number): Promise<Response> {
-        for (let attempt = 0; attempt <= retries; attempt++) {
-            const controller = new AbortController();
-            const timeoutId = setTimeout(() => controller.abort(), timeout);
+    private parseAreaOfInterest(aoi?: Static<typeof Environment>['AreaOfInterest']): number[][][][] {
+        const polygons: number[][][][] = [];
+        if (!aoi) {
+            return polygons;
+        }
+        
+        if (aoi.BBox) {
+            const [west, south, east, north] = aoi.BBox;
+            const box = (w: number, e: number) => [[[w, south], [e, south], [e, north], [w, north], [w, south]]];
             
-            try {
-                const res = await fetch(url, {
-                    method: 'GET',
-                    headers,
-                    signal: controller.signal
-                });
-                
-                if (!res.ok) {
-                    throw new Error(`HTTP ${res.status}: ${res.statusText}`);
+            // A west edge east of the east edge means the box crosses the antimeridian
+            polygons.push(...west > east ? [box(west, 180), box(-180, east)] : [box(west, east)]);
+        }
+        
+        if (aoi.GeoJSON) {
+            const collect = (geojson: { type: string; coordinates?: unknown; geometry?: unknown; features?: unknown[] }): void => {
+                if (geojson.type === 'FeatureCollection') {
+                    for (const feature of geojson.features || []) collect(feature as typeof geojson);
+                } else if (geojson.type === 'Feature' && geojson.geometry) {
+                    collect(geojson.geometry as typeof geojson);
+                } else if (geojson.type === 'Polygon') {
+                    polygons.push(geojson.coordinates as number[][][]);
+                } else if (geojson.type === 'MultiPolygon') {
+                    polygons.push(...geojson.coordinates as number[][][][]);
+                } else {
+                    throw new Error(`Unsupported AreaOfInterest geometry: ${geojson.type}`);
                 }
-                
-                return res;
-            } catch (error) {
-                if (attempt === retries) throw error;
-                await new Promise(resolve => setTimeout(resolve, 1000 * (attempt + 1)));
-            } finally {
-                clearTimeout(timeoutId);
-            }
+            };
+            
+            collect(JSON.parse(aoi.GeoJSON));
         }
-        throw new Error('fetchWithRetry: all retry attempts exhausted');
+        
+        return polygons;
     }
 
-    private async parseXML(xmlText: string): Promise<CAPAlert | null> {
-        try {
-            const parser = new XMLParser({ ignoreAttributes: false, attributeNamePrefix: '@' });
-            const parsed = parser.parse(xmlText);
-            
-            const alert = parsed.alert;
-            if (!alert) {
-                console.log('No alert element found in XML');
-                return null;
-            }
-            
-            const identifier = alert.identifier || '';
-            const sender = alert.sender || '';
-            const sent = alert.sent || '';
-            const status = alert.status || '';
-            const msgType = alert.msgType || '';
-            const scope = alert.scope || '';
-            
-            const info = alert.info;
-            if (!info) {
-                return null;
-            }
-            
-            if (!identifier || !sender || !sent) {
-                return null;
-            }
-            
-            const category = info.category || '';
-            const event = info.event || '';
-            const urgency = info.urgency || '';
-            const severity = info.severity || '';
-            const certainty = info.certainty || '';
-            const senderName = info.senderName || '';
-            const headline = info.headline || '';
-            const description = info.description || '';
-            const instruction = info.instruction || '';
-            const responseType = info.responseType || '';
-            const onset = info.onset || '';
-            const expires = info.expires || '';
-            const web = info.web || '';
-            
-            const area = info.area || {};
-            const areaDesc = area.areaDesc || '';
-            const polygon = area.polygon || '';
-            const circle = area.circle || '';
-            
-            // Extract ColourCodeHex parameter
-            let colorCode = null;
-            if (info.parameter) {
-                const params = Array.isArray(info.parameter) ? info.parameter : [info.parameter];
-                // Prioritize ColourCodeHex over ColourCode
-                const hexParam = params.find((p: { valueName: string; value: string }) => p.valueName === 'ColourCodeHex');
-                if (hexParam) {
-                    colorCode = hexParam.value;
-                } else {
-                    const colorParam = params.find((p: { valueName: string; value: string }) => p.valueName === 'ColourCode');
-                    if (colorParam) {
-                        const colorMap: Record<string, string> = {
-                            'Red': '#FF0000',
-                            'Orange': '#FF8918',
-                            'Yellow': '#FFFF00',
-                            'Green': '#00FF00',
-                            'Blue': '#0000FF'
-                        };
-                        colorCode = colorMap[colorParam.value] || null;
-                    }
+    private pointInPolygon(point: number[], polygon: number[][][]): boolean {
+        // Ray casting against every ring, holes toggle the result back
+        let inside = false;
+        for (const ring of polygon) {
+            for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+                const [xi, yi] = ring[i];
+                const [xj, yj] = ring[j];
+                if ((yi > point[1]) !== (yj > point[1]) && point[0] < (xj - xi) * (point[1] - yi) / (yj - yi) + xi) {
+                    inside = !inside;
                 }
             }
-            
-            // Extract certificate metadata from signature
-            let signature = undefined;
-            const certSection = parsed.alert?.Signature?.KeyInfo?.X509Data?.X509Certificate;
-            if (certSection) {
-                try {
-                    // Clean up the certificate data by removing HTML entities and whitespace
-                    const cleanCert = certSection.replace(/&#13;/g, '').replace(/\s/g, '');
-                    const certData = atob(cleanCert);
-                    
-                    // Generate SHA-256 fingerprint (more secure than SHA-1)
-                    const sha256Hash = createHash('sha256');
-                    sha256Hash.update(cleanCert, 'base64');
-                    const fingerprintHex = sha256Hash.digest('hex').toUpperCase();
-                    const fingerprint = fingerprintHex.match(/.{2}/g)?.join(':') || fingerprintHex;
-                    
-                    // Extract certificate info using more flexible patterns
-                    const cnMatch = certData.match(/CN=([^,]+)/);
-                    const oMatch = certData.match(/O=([^,]+)/);
-                    // Look for validity period in ASN.1 format - get the second date (expiration)
-                    const dateMatches = certData.match(/(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})Z/g);
-                    const validMatch = dateMatches && dateMatches.length >= 2 ? 
-                        dateMatches[1].match(/(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})Z/) : null;
-                    
+        }
+        return inside;
+    }
+
+    private polygonsIntersect(a: number[][][], b: number[][][]): boolean {
+        const bbox = (polygon: number[][][]) => {
+            const xs = polygon[0].map(p => p[0]);
+            const ys = polygon[0].map(p => p[1]);
+            return [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)];
+        };
+        
+        const [aw, as, ae, an] = bbox(a);
+        const [bw, bs, be, bn] = bbox(b);
+        if (aw > be || bw > ae || as > bn || bs > an) {
+            return false;
+        }
+        
+        // Either polygon containing a vertex of the other covers containment
+        if (a[0].some(p => this.pointInPolygon(p, b)) || b[0].some(p => this.pointInPolygon(p, a))) {
+            return true;
+        }
+        
+        // Otherwise they only intersect if two edges cross
+        const cross = (o: number[], p: number[], q: number[]) => (p[0] - o[0]) * (q[1] - o[1]) - (p[1] - o[1]) * (q[0] - o[0]);
+        for (let i = 0; i < a[0].length - 1; i++) {
+            for (let j = 0; j < b[0].length - 1; j++) {
+                const [p1, p2, q1, q2] = [a[0][i], a[0][i + 1], b[0][j], b[0][j + 1]];
+                if (cross(p1, p2, q1) * cross(p1, p2, q2) < 0 && cross(q1, q2, p1) * cross(q1, q2, p2) < 0) {
+                    return true;
+                }
+            }
+        }
+        
+        return false;
+    }
+
+    private async loadBoundaries(env: Static<typeof Environment>): Promise<void> {
+        if (!env.BoundaryURL || Task.boundaries?.url === env.BoundaryURL) {
+            return;
+        }
+        
+        const res = await this.fetchWithRetry(new URL(env.BoundaryURL), {}, env.Timeout, env.Retries);
+        const geojson = await res.json() as { features?: Array<{ properties?: Record<string, unknown>; geometry?: { type: string; coordinates: unknown } }> };
+        
+        const features: Array<{ properties: Record<string, unknown>; polygons: number[][][][] }> = [];
+        for (const feature of geojson.features || []) {
+            if (feature.geometry?.type === 'Polygon') {
+                features.push({ properties: feature.properties || {}, polygons: [feature.geometry.coordinates as number[][][]] });
+            } else if (feature.geometry?.type === 'MultiPolygon') {
+                features.push({ properties: feature.properties || {}, polygons: feature.geometry.coordinates as number[][][][] });
+            }
+        }
+        
+        console.log(`Loaded ${features.length} boundaries from ${env.BoundaryURL}`);
+        Task.boundaries = { url: env.BoundaryURL, features };
+    }
+
+    private resolveGeocodes(geocodes: CAPArea['geocode'], env: Static<typeof Environment>): number[][][][] {
+        if (!Task.boundaries) {
+            return [];
+        }
+        
+        const polygons: number[][][][] = [];
+        for (const geocode of geocodes) {
+            const property = env.BoundaryProperties?.find(p => p.valueName === geocode.valueName)?.property || geocode.valueName;
+            
+            // Codes may be published as numbers in one dataset and zero padded strings in another
+            const matches = Task.boundaries.features.filter(f => {
+                const value = f.properties[property];
+                if (value === undefined || value === null) return false;
+                if (String(value) === geocode.value) return true;
+                return !isNaN(Number(value)) && !isNaN(Number(geocode.value)) && Number(value) === Number(geocode.value);
+            });
+            
+            if (!matches.length) {
+                console.warn(`No boundary found for geocode ${geocode.valueName}=${geocode.value}`);
+            }
+            
+            for (const match of matches) {
+                polygons.push(...match.polygons);
+            }
+        }
+        
+        return polygons;
+    }
+
+    private async loadCache(): Promise<FetchCache> {
+        try {
+            const layer = await this.fetchLayer();
+            const cache = layer.incoming?.ephemeral?.cache;
+            if (cache) {
+                const parsed = JSON.parse(cache) as FetchCache;
+                if (parsed.version === Task.CACHE_VERSION) return parsed;
+            }
+        } catch (error) {
+            console.warn('Unable to load fetch cache:', error instanceof Error ? error.message : 'Unknown error');
+        }
+        return { version: Task.CACHE_VERSION, feeds: {}, alerts: {}, chain: {} };
+    }
+
+    private async saveCache(cache: FetchCache): Promise<void> {
+        try {
+            // Keep other ephemeral state, e.g. alerts issued by the outgoing flow
+            const layer = await this.fetchLayer();
+            await this.setEphemeral({ ...layer.incoming?.ephemeral, cache: JSON.stringify(cache) });
+        } catch (error) {
+            console.warn('Unable to save fetch cache:', error instanceof Error ? error.message : 'Unknown error');
+        }
+    }
+
+    private conditionalHeaders(headers: Record<string, string>, cached?: { etag?: string; lastModified?: string }): Record<string, string> {
+        return {
+            ...headers,
+            ...(cached?.etag ? { 'If-None-Match': cached.etag } : {}),
+            ...(cached?.lastModified ? { 'If-Modified-Since': cached.lastModified } : {})
+        };
+    }
+
+    private async fetchAlert(
+        entry: FeedEntry,
+        headers: Record<string, string>,
+        env: Static<typeof Environment>,
+        cache: FetchCache,
+        next: FetchCache,
+        deadline: number
+    ): Promise<ParsedAlert[]> {
+        const key = entry.url || entry.id;
+        const cached = cache.alerts[key];
+        
+        let capXml = entry.xml;
+        let etag: string | undefined;
+        let lastModified: string | undefined;
+        if (capXml === undefined) {
+            const capRes = await this.fetchWithRetry(new URL(entry.url as string), this.conditionalHeaders(headers, cached), env.Timeout, env.Retries, deadline);
+            if (capRes.status === 304 && cached) {
+                next.alerts[key] = { ...cached, updated: entry.updated };
+                return cached.alerts;
+            }
+            
+            capXml = await capRes.text();
+            etag = capRes.headers.get('etag') || undefined;
+            lastModified = capRes.headers.get('last-modified') || undefined;
+        }
+        
+        const contentHash = hash(capXml);
+        
+        // Only reparse documents whose content actually changed
+        const parsed = cached && cached.hash === contentHash ? cached.alerts : await this.parseXML(capXml);
+        next.alerts[key] = {
+            etag,
+            lastModified,
+            updated: entry.updated,
+            hash: contentHash,
+            alerts: parsed
+        };
+        
+        return parsed;
+    }
+
+    private async mapWithConcurrency<T, R>(items: T[], concurrency: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+        const results: R[] = new Array(items.length);
+        
+        // Each worker takes the next item until none are left, results keep the order of items
+        let next = 0;
+        const worker = async () => {
+            while (next < items.length) {
+                const index = next++;
+                results[index] = await fn(items[index]);
+            }
+        };
+        
+        await Promise.all(Array.from({ length: Math.min(Math.max(concurrency, 1), items.length) }, worker));
+        return results;
+    }
+
+    private async sendWithRetry(url: URL, method: string, headers: Record<string, string>, body: string, timeout: number, retries: number): Promise<Response> {
+        for (let attempt = 0; attempt <= retries; attempt++) {
+            const controller = new AbortController();
+            const timeoutId = setTimeout(() => controller.abort(), timeout);
+            
+            try {
+                const res = await fetch(url, {
+                    method,
+                    headers,
+                    body,
+                    signal: controller.signal
+                });
+                
+                if (!res.ok) {
+                    throw new Error(`HTTP ${res.status}: ${res.statusText}`);
+                }
+                
+                return res;
+            } catch (error) {
+                if (attempt === retries) throw error;
+                await new Promise(resolve => setTimeout(resolve, 1000 * (attempt + 1)));
+            } finally {
+                clearTimeout(timeoutId);
+            }
+        }
+        throw new Error('sendWithRetry: all retry attempts exhausted');
+    }
+
+    private async fetchWithRetry(url: URL, headers: Record<string, string>, timeout: number, retries: number, deadline = Infinity): Promise<Response> {
+        for (let attempt = 0; attempt <= retries; attempt++) {
+            // Every attempt and back-off ends by the deadline of the whole run
+            const remaining = deadline - Date.now();
+            if (remaining <= 0) {
+                throw new Error('Run deadline reached');
+            }
+            
+            const controller = new AbortController();
+            const timeoutId = setTimeout(() => controller.abort(), Math.min(timeout, remaining));
+            
+            try {
+                const res = await fetch(url, {
+                    method: 'GET',
+                    headers,
+                    signal: controller.signal
+                });
+                
+                // 304 Not Modified is expected when conditional headers are sent
+                if (!res.ok && res.status !== 304) {
+                    throw new Error(`HTTP ${res.status}: ${res.statusText}`);
+                }
+                
+                return res;
+            } catch (error) {
+                const backoff = 1000 * (attempt + 1);
+                if (attempt === retries || Date.now() + backoff >= deadline) throw error;
+                await new Promise(resolve => setTimeout(resolve, backoff));
+            } finally {
+                clearTimeout(timeoutId);
+            }
+        }
+        throw new Error('fetchWithRetry: all retry attempts exhausted');
+    }
+
+    private xmlText(value: unknown): string {
+        // Elements with attributes are parsed as objects holding their text in #text
+        if (value !== null && typeof value === 'object') {
+            return '#text' in value ? String(value['#text']) : '';
+        }
+        return value === undefined || value === null ? '' : String(value);
+    }
+
+    private xmlTexts(value: unknown): string[] {
+        // Repeated elements are parsed as an array, a single element as a plain value
+        return (Array.isArray(value) ? value : [value]).map(v => this.xmlText(v)).filter(Boolean);
+    }
+
+    private xmlNodes(value: unknown): XMLNode[] {
+        return (Array.isArray(value) ? value : [value]).filter((v): v is XMLNode => v !== null && typeof v === 'object');
+    }
+
+    private xmlChild(node: unknown, ...path: string[]): unknown {
+        return path.reduce((value: unknown, name) => this.xmlNodes(value)[0]?.[name], node);
+    }
+
+    private parseArea(area: XMLNode): CAPArea {
+        const altitude = parseFloat(this.xmlText(area.altitude));
+        const ceiling = parseFloat(this.xmlText(area.ceiling));
+        
+        return {
+            areaDesc: this.xmlText(area.areaDesc),
+            polygon: this.xmlTexts(area.polygon),
+            circle: this.xmlTexts(area.circle),
+            geocode: this.xmlNodes(area.geocode).map(g => ({
+                valueName: this.xmlText(g.valueName),
+                value: this.xmlText(g.value)
+            })),
+            altitude: isNaN(altitude) ? undefined : altitude,
+            ceiling: isNaN(ceiling) ? undefined : ceiling
+        };
+    }
+
+    private parseInfo(info: XMLNode): CAPInfo {
+        const event = this.xmlText(info.event);
+        const urgency = this.xmlText(info.urgency);
+        const severity = this.xmlText(info.severity);
+        const certainty = this.xmlText(info.certainty);
+        const senderName = this.xmlText(info.senderName);
+        const headline = this.xmlText(info.headline);
+        const description = this.xmlText(info.description);
+        const instruction = this.xmlText(info.instruction);
+        const responseType = this.xmlTexts(info.responseType);
+        const effective = this.xmlText(info.effective);
+        const onset = this.xmlText(info.onset);
+        const expires = this.xmlText(info.expires);
+        const web = this.xmlText(info.web);
+        
+        const area = this.xmlNodes(info.area).map(a => this.parseArea(a));
+        
+        // Every eventCode and parameter is kept, values are read as text
+        const pairs = (value: unknown) => this.xmlNodes(value).map(p => ({ valueName: this.xmlText(p.valueName), value: this.xmlText(p.value) }));
+        const eventCode = pairs(info.eventCode);
+        const parameter = pairs(info.parameter);
+        const category = this.xmlTexts(info.category);
+        
+        // Prioritize ColourCodeHex over ColourCode
+        let colorCode: string | undefined;
+        const hexParam = parameter.find(p => p.valueName === 'ColourCodeHex');
+        if (hexParam) {
+            colorCode = hexParam.value;
+        } else {
+            const colorParam = parameter.find(p => p.valueName === 'ColourCode');
+            if (colorParam) {
+                const colorMap: Record<string, string> = {
+                    'Red': '#FF0000',
+                    'Orange': '#FF8918',
+                    'Yellow': '#FFFF00',
+                    'Green': '#00FF00',
+                    'Blue': '#0000FF'
+                };
+                colorCode = colorMap[colorParam.value] || undefined;
+            }
+        }
+        
+        return {
+            language: this.xmlText(info.language) || 'en-US',
+            category,
+            event,
+            urgency,
+            severity,
+            certainty,
+            senderName,
+            headline,
+            description,
+            instruction,
+            responseType,
+            effective,
+            onset,
+            expires,
+            web,
+            eventCode,
+            parameter,
+            area,
+            colorCode
+        };
+    }
+
+    private parseCertificate(certificate: string): CertificateInfo {
+        const der = Buffer.from(certificate, 'base64');
+        const cert = new X509Certificate(der);
+        
+        // Node lists RDNs one per line from the root, DNs are conventionally written leaf first
+        const dn = (name: string) => name.split('\n').filter(Boolean).reverse().join(', ');
+        
+        return {
+            subject: dn(cert.subject),
+            issuer: dn(cert.issuer),
+            serialNumber: cert.serialNumber.match(/.{1,2}/g)?.join(':') || cert.serialNumber,
+            validFrom: new Date(cert.validFrom).toISOString(),
+            validUntil: new Date(cert.validTo).toISOString(),
+            keyUsage: this.parseKeyUsage(der),
+            extKeyUsage: cert.keyUsage || [],
+            fingerprint: cert.fingerprint256
+        };
+    }
+
+    private parseKeyUsage(der: Buffer): string[] {
+        // Node doesn't expose the KeyUsage extension (2.5.29.15), locate its OID and decode the BIT STRING that follows
+        const oid = Buffer.from([0x06, 0x03, 0x55, 0x1d, 0x0f]);
+        let offset = der.indexOf(oid);
+        if (offset === -1) {
+            return [];
+        }
+        offset += oid.length;
+        
+        // Skip the optional critical BOOLEAN
+        if (der[offset] === 0x01) {
+            offset += 2 + der[offset + 1];
+        }
+        
+        // OCTET STRING wrapping the BIT STRING: 04 len 03 len unused bits...
+        if (der[offset] !== 0x04 || der[offset + 2] !== 0x03) {
+            return [];
+        }
+        
+        const length = der[offset + 3];
+        const bits = der.subarray(offset + 5, offset + 4 + length);
+        
+        return Task.KEY_USAGE.filter((_, i) => (bits[Math.floor(i / 8)] ?? 0) & (0x80 >> (i % 8)));
+    }
+
+    private verifyXMLSignature(xmlText: string, certificate: string): string | null {
+        try {
+            const doc = new DOMParser().parseFromString(xmlText, 'text/xml');
+            const node = doc.getElementsByTagNameNS('http://www.w3.org/2000/09/xmldsig#', 'Signature')[0];
+            if (!node || !doc.documentElement) {
+                return null;
+            }
+            
+            const cert = new X509Certificate(Buffer.from(certificate, 'base64'));
+            const signed = new SignedXml({ publicCert: cert.toString() });
+            signed.loadSignature(node.toString());
+            if (!signed.checkSignature(xmlText)) {
+                return null;
+            }
+            
+            // Enveloped CAP signatures must reference the whole alert, a signature over a single element
+            // leaves the rest of the alert open to tampering
+            const root = doc.documentElement;
+            const rootIds = ['Id', 'ID', 'id'].map(attr => root.getAttribute(attr)).filter(Boolean).map(id => `#${id}`);
+            const reference = signed.getReferences().find(ref => {
+                return (ref.uri === '' || rootIds.includes(ref.uri))
+                    && ref.transforms.includes('http://www.w3.org/2000/09/xmldsig#enveloped-signature')
+                    && ref.signedReference;
+            });
+            
+            // Only the signed content is trusted, not the text it was read from
+            return reference?.signedReference || null;
+        } catch (error) {
+            console.warn('Signature verification error:', error instanceof Error ? error.message : 'Unknown error');
+            return null;
+        }
+    }
+
+    private signatureStatus(signature: CAPAlert['signature'], env: Static<typeof Environment>): SignatureStatus {
+        if (signature.status !== 'valid' || !signature.certificate) {
+            return signature.status;
+        }
+        
+        const cert = new X509Certificate(Buffer.from(signature.certificate, 'base64'));
+        const now = new Date();
+        if (new Date(cert.validTo) < now || new Date(cert.validFrom) > now) {
+            return 'expired';
+        }
+        
+        const fingerprints = env.TrustedFingerprints || [];
+        const anchors = env.TrustedCertificates || [];
+        if (!fingerprints.length && !anchors.length) {
+            return 'valid';
+        }
+        
+        const normalize = (fingerprint: string) => fingerprint.replace(/:/g, '').toUpperCase();
+        if (fingerprints.some(f => normalize(f) === normalize(cert.fingerprint256))) {
+            return 'valid';
+        }
+        
+        for (const pem of anchors) {
+            try {
+                const anchor = new X509Certificate(pem);
+                if (anchor.fingerprint256 === cert.fingerprint256 || (cert.checkIssued(anchor) && cert.verify(anchor.publicKey))) {
+                    return 'valid';
+                }
+            } catch (error) {
+                console.warn('Invalid trusted certificate:', error instanceof Error ? error.message : 'Unknown error');
+            }
+        }
+        
+        return 'untrusted';
+    }
+
+    private schemaValues(schema: TSchema): string[] {
+        // Allowed literals of an enumeration, including those of a repeated enumeration
+        if (schema.const !== undefined) return [String(schema.const)];
+        return [...new Set([...schema.anyOf || [], ...schema.items ? [schema.items] : []].flatMap((s: TSchema) => this.schemaValues(s)))];
+    }
+
+    private validationIssues(errors: Iterable<ValueError>, issues: ValidationIssue[] = []): ValidationIssue[] {
+        for (const error of errors) {
+            const path = error.path || '/';
+            const values = this.schemaValues(error.schema);
+            
+            // Repeated elements are a single element or an array, report the errors of the variant the element actually is,
+            // down to the failing item of a repeated enumeration such as category
+            if (error.type === ValueErrorType.Union && (!values.length || Array.isArray(error.value))) {
+                const variant = (error.schema.anyOf as TSchema[]).findIndex(s => (s.type === 'array') === Array.isArray(error.value));
+                if (variant !== -1 && error.errors[variant]) {
+                    this.validationIssues(error.errors[variant], issues);
+                    continue;
+                }
+            }
+            
+            // TypeBox reports a missing element once per failed check, the first one is enough
+            if (issues.some(e => e.path === path)) continue;
+            
+            const message = error.value === undefined ? 'Missing required element'
+                : values.length ? `Expected one of ${values.join(', ')}`
+                : error.type === ValueErrorType.StringPattern && error.schema.description ? `Expected ${error.schema.description}`
+                    : error.message;
+            issues.push({
+                path,
+                message: typeof error.value === 'string' ? `${message}, got "${error.value}"` : message
+            });
+        }
+        
+        return issues;
+    }
+
+    private acceptedAlert(parsed: ParsedAlert, env: Static<typeof Environment>): CAPAlert | null {
+        if (!parsed.alert) return null;
+        return env.Validation === 'Strict' && parsed.errors.length ? null : parsed.alert;
+    }
+
+    private formatIssues(errors: ValidationIssue[]): string {
+        return errors.map(error => `${error.path}: ${error.message}`).join('; ');
+    }
+
+    private isCAPAlert(node: Element): boolean {
+        // CAP alerts may use any namespace prefix and be wrapped in an envelope such as EDXL-DE
+        return node.localName === 'alert' && (!node.namespaceURI || node.namespaceURI in Task.CAP_NAMESPACES);
+    }
+
+    private capDocuments(xmlText: string): Array<{ xml: string; version: string }> {
+        const doc = new DOMParser().parseFromString(xmlText, 'text/xml');
+        
+        return Array.from(doc.getElementsByTagName('*'))
+            .filter(node => this.isCAPAlert(node))
+            .map(node => ({
+                // Wrapped alerts are serialized with their namespace declarations so signatures verify standalone
+                xml: node === doc.documentElement ? xmlText : new XMLSerializer().serializeToString(node),
+                version: Task.CAP_NAMESPACES[node.namespaceURI || ''] || '1.2'
+            }));
+    }
+
+    private async parseXML(xmlText: string): Promise<ParsedAlert[]> {
+        try {
+            const documents = this.capDocuments(xmlText);
+            if (!documents.length) {
+                return [{ alert: null, errors: [{ path: '/', message: 'No CAP alert element found' }] }];
+            }
+            
+            return documents.map(document => this.parseDocument(document));
+        } catch (error) {
+            return [{ alert: null, errors: [{ path: '/', message: `Unable to parse CAP XML: ${error instanceof Error ? error.message : 'Unknown error'}` }] }];
+        }
+    }
+
+    private parseDocument(document: { xml: string; version: string }): ParsedAlert {
+        try {
+            // Namespace prefixes such as cap: or ds: are dropped so every CAP version reads the same
+            const parser = new XMLParser({ ignoreAttributes: false, attributeNamePrefix: '@', parseTagValue: false, removeNSPrefix: true });
+            const [root] = this.xmlNodes(parser.parse(document.xml).alert);
+            if (!root) {
+                return { alert: null, errors: [{ path: '/', message: 'No CAP alert element found' }] };
+            }
+            
+            // Extract certificate metadata from signature
+            let signature: CAPAlert['signature'] = { status: 'unsigned' };
+            let signedXml: string | null = null;
+            const certSection = this.xmlText(this.xmlChild(root, 'Signature', 'KeyInfo', 'X509Data', 'X509Certificate'));
+            if (!certSection && root.Signature) {
+                // A signature without an embedded certificate can't be checked
+                signature = { status: 'invalid' };
+            } else if (certSection) {
+                // Clean up the certificate data by removing HTML entities and whitespace
+                const cleanCert = certSection.replace(/&#13;/g, '').replace(/\s/g, '');
+                try {
+                    signedXml = this.verifyXMLSignature(document.xml, cleanCert);
                     signature = {
-                        issuer: cnMatch ? cnMatch[1].trim() : 'MetService',
-                        subject: oMatch ? oMatch[1].trim() : Task.CERT_DEFAULTS.SUBJECT,
-                        validUntil: validMatch ? `20${validMatch[1]}-${validMatch[2]}-${validMatch[3]}` : Task.CERT_DEFAULTS.VALID_UNTIL,
-                        fingerprint: fingerprint || 'Unknown'
+                        status: signedXml ? 'valid' : 'invalid',
+                        certificate: cleanCert,
+                        ...this.parseCertificate(cleanCert)
                     };
                 } catch (error) {
                     console.error('Certificate parsing error:', error instanceof Error ? error.message : 'Unknown error');
-                    // Fallback signature info if parsing fails
-                    signature = {
-                        issuer: Task.CERT_DEFAULTS.ISSUER,
-                        subject: Task.CERT_DEFAULTS.SUBJECT,
-                        validUntil: Task.CERT_DEFAULTS.VALID_UNTIL,
-                        fingerprint: 'Unknown'
-                    };
+                    signature = { status: 'invalid' };
+                }
+            }
+            
+            // A validly signed alert is read from the content its signature covers
+            const [alert] = signedXml ? this.xmlNodes(parser.parse(signedXml).alert) : [root];
+            if (!alert) {
+                return { alert: null, errors: [{ path: '/', message: 'No CAP alert element found' }] };
+            }
+            
+            // CAP 1.0 allowed "Very Likely", deprecated in CAP 1.1 and to be read as "Likely"
+            if (document.version !== '1.2') {
+                for (const info of this.xmlNodes(alert.info)) {
+                    if (this.xmlText(info.certainty) === 'Very Likely') info.certainty = 'Likely';
+                }
+            }
+            
+            const errors = this.validationIssues(Value.Errors(CAPAlertSchema, alert));
+            
+            const identifier = this.xmlText(alert.identifier);
+            const sender = this.xmlText(alert.sender);
+            const sent = this.xmlText(alert.sent);
+            const status = this.xmlText(alert.status);
+            const msgType = this.xmlText(alert.msgType);
+            const scope = this.xmlText(alert.scope);
+            
+            // Cancel messages are not required to repeat the info of the alerts they cancel
+            if (!this.xmlNodes(alert.info).length && msgType !== 'Cancel') {
+                return { alert: null, errors: [...errors, { path: '/info', message: `Expected at least one info block for msgType ${msgType || 'Alert'}` }] };
+            }
+            
+            if (!identifier || !sender || !sent) {
+                return { alert: null, errors };
+            }
+            
+            // An alert may carry several info blocks, e.g. translations or distinct hazards
+            const info = this.xmlNodes(alert.info).map(i => this.parseInfo(i));
+            
+            // References are whitespace separated "sender,identifier,sent" triplets
+            const references = this.xmlText(alert.references).trim().split(/\s+/).filter(Boolean).map(ref => {
+                const [refSender, refIdentifier, refSent] = ref.split(',');
+                return { sender: refSender || '', identifier: refIdentifier || '', sent: refSent || '' };
+            }).filter(ref => ref.identifier);
+            
+            return {
+                alert: {
+                    identifier,
+                    sender,
+                    sent,
+                    status,
+                    msgType,
+                    scope,
+                    version: document.version,
+                    references,
+                    info,
+                    signature
+                },
+                errors
+            };
+        } catch (error) {
+            return { alert: null, errors: [{ path: '/', message: `Unable to parse CAP XML: ${error instanceof Error ? error.message : 'Unknown error'}` }] };
+        }
+    }
+
+    private feedLink(links: XMLNode[]): string | undefined {
+        // Atom links default to rel="alternate", never follow self, stylesheet or other related links
+        const candidates = links.filter(l => this.xmlText(l['@href']) && (!l['@rel'] || l['@rel'] === 'alternate' || l['@rel'] === 'enclosure'));
+        
+        const type = (l: XMLNode) => this.xmlText(l['@type']).toLowerCase();
+        const link = candidates.find(l => type(l).includes('cap'))
+            || candidates.find(l => type(l).includes('xml'))
+            || candidates.find(l => !type(l).includes('html'))
+            || candidates[0];
+        
+        return link ? this.xmlText(link['@href']).trim() : undefined;
+    }
+
+    private async parseFeed(feedText: string): Promise<FeedEntry[]> {
+        const parser = new XMLParser({
+            ignoreAttributes: false,
+            attributeNamePrefix: '@',
+            parseTagValue: false,
+            removeNSPrefix: true,
+            isArray: (name) => ['item', 'entry', 'link', 'enclosure'].includes(name)
+        });
+        const parsed = parser.parse(feedText);
+        const [feed] = this.xmlNodes(parsed.feed);
+        const [channel] = this.xmlNodes(this.xmlChild(parsed, 'rss', 'channel'));
+        
+        // RSS links are plain text, Atom links carry their URL in href
+        const links = (value: unknown) => (Array.isArray(value) ? value : []).map(l => typeof l === 'string' ? { '@href': l } : this.xmlNodes(l)[0] || {});
+        
+        let items: Array<{ id?: string; links: XMLNode[]; updated?: string }>;
+        if (feed) {
+            // Atom
+            items = this.xmlNodes(feed.entry).map(entry => ({
+                id: this.xmlText(entry.id),
+                links: links(entry.link),
+                updated: this.xmlText(entry.updated) || this.xmlText(entry.published) || undefined
+            }));
+        } else if (channel) {
+            // RSS 2.0, prefer enclosures which carry the CAP document over the item link
+            items = this.xmlNodes(channel.item).map(item => ({
+                id: this.xmlText(item.guid),
+                links: [
+                    ...this.xmlNodes(item.enclosure).map(e => ({ '@href': e['@url'], '@type': e['@type'], '@rel': 'enclosure' })),
+                    ...links(item.link)
+                ],
+                updated: this.xmlText(item.pubDate) || undefined
+            }));
+        } else {
+            throw new Error('Feed is neither RSS 2.0 nor Atom');
+        }
+        
+        // The DOM elements of the entries, in the same order as the parsed items
+        const doc = new DOMParser().parseFromString(feedText, 'text/xml');
+        const children = (node: Element | undefined, name: string) => Array.from(node?.childNodes || [])
+            .filter((child): child is Element => child.nodeType === child.ELEMENT_NODE && (child as Element).localName === name);
+        const nodes = feed ? children(doc.documentElement || undefined, 'entry') : children(children(doc.documentElement || undefined, 'channel')[0], 'item');
+        
+        const entries: FeedEntry[] = [];
+        const seen = new Set<string>();
+        for (const [i, item] of items.entries()) {
+            // Entries embedding alerts, directly or in an envelope such as EDXL-DE, are kept whole so every alert is read from them.
+            // They are serialized from the DOM so signatures still verify against the original markup
+            const node = nodes[i];
+            const inline = node && Array.from(node.getElementsByTagName('*')).some(child => this.isCAPAlert(child));
+            const xml = inline ? new XMLSerializer().serializeToString(node) : undefined;
+            const url = xml === undefined ? this.feedLink(item.links) : undefined;
+            if (!xml && !url) continue;
+            
+            const id = String(item.id || url || hash(xml as string));
+            const key = url || id;
+            if (seen.has(key)) continue;
+            seen.add(key);
+            
+            entries.push({ id, url, updated: item.updated, xml });
+        }
+        
+        return entries;
+    }
+
+    async schema(
+        type: SchemaType = SchemaType.Input,
+        flow: DataFlowType = DataFlowType.Incoming
+    ): Promise<TSchema> {
+        if (flow === DataFlowType.Incoming) {
+            if (type === SchemaType.Input) {
+                return Environment
+            } else {
+                return Type.Object({})
+            }
+        } else {
+            if (type === SchemaType.Input) {
+                return OutgoingEnvironment
+            } else {
+                return Type.Object({})
+            }
+        }
+    }
+
+    private selectInfos(infos: CAPInfo[], languages?: string[]): CAPInfo[] {
+        if (!languages || !languages.length) {
+            return infos;
+        }
+        
+        // Pick the first preferred language with a match, comparing primary subtags as a fallback (en-NZ ~ en-US)
+        for (const preferred of languages.map(l => l.toLowerCase())) {
+            const exact = infos.filter(i => i.language.toLowerCase() === preferred);
+            if (exact.length) return exact;
+            
+            const primary = infos.filter(i => i.language.toLowerCase().split('-')[0] === preferred.split('-')[0]);
+            if (primary.length) return primary;
+        }
+        
+        // No preferred language present - fall back to the language of the first info block
+        return infos.filter(i => i.language === infos[0].language);
+    }
+
+    private valueMap(pairs: Array<{ valueName: string; value: string }>): Record<string, string | string[]> {
+        // Keyed by valueName, a valueName given more than once keeps all of its values
+        const map: Record<string, string | string[]> = {};
+        for (const { valueName, value } of pairs) {
+            const existing = map[valueName];
+            map[valueName] = existing === undefined ? value : [...Array.isArray(existing) ? existing : [existing], value];
+        }
+        
+        return map;
+    }
+
+    private alertProperties(
+        alert: CAPAlert,
+        info: CAPInfo,
+        area: CAPArea,
+        id: string,
+        geometry: 'Polygon' | 'Point',
+        env: Static<typeof Environment>
+    ): Record<string, unknown> {
+        return {
+            callsign: info.headline || 'CAP Alert',
+            type: this.getCoTType(info, env, geometry),
+            // Passed on from the alerting authority's system, public alerts carry no access restriction
+            how: 'm-p',
+            access: alert.scope === 'Public' ? 'Unclassified' : 'Undefined',
+            time: new Date(alert.sent).toISOString(),
+            start: info.onset ? new Date(info.onset).toISOString() : new Date(alert.sent).toISOString(),
+            stale: info.expires ? new Date(info.expires).toISOString() : undefined,
+            metadata: {
+                identifier: alert.identifier,
+                ...(alert.source ? { source: alert.source } : {}),
+                sender: alert.sender,
+                sent: alert.sent,
+                status: alert.status,
+                msgType: alert.msgType,
+                scope: alert.scope,
+                version: alert.version,
+                ...(alert.references.length ? { references: alert.references.map(r => r.identifier) } : {}),
+                language: info.language,
+                category: info.category,
+                event: info.event,
+                urgency: info.urgency,
+                severity: info.severity,
+                certainty: info.certainty,
+                senderName: info.senderName,
+                headline: info.headline,
+                description: info.description,
+                instruction: info.instruction,
+                responseType: info.responseType,
+                effective: info.effective,
+                onset: info.onset,
+                expires: info.expires,
+                web: info.web,
+                ...(info.eventCode.length ? { eventCode: this.valueMap(info.eventCode) } : {}),
+                ...(info.parameter.length ? { parameter: this.valueMap(info.parameter) } : {}),
+                areaDesc: area.areaDesc,
+                ...(area.geocode.length ? { geocode: area.geocode } : {}),
+                ...(area.altitude !== undefined ? { altitude: area.altitude } : {}),
+                ...(area.ceiling !== undefined ? { ceiling: area.ceiling } : {}),
+                signature: {
+                    status: alert.signature.status,
+                    subject: alert.signature.subject,
+                    issuer: alert.signature.issuer,
+                    serialNumber: alert.signature.serialNumber,
+                    validFrom: alert.signature.validFrom,
+                    validUntil: alert.signature.validUntil,
+                    keyUsage: alert.signature.keyUsage,
+                    extKeyUsage: alert.signature.extKeyUsage,
+                    fingerprint: alert.signature.fingerprint
+                }
+            },
+            remarks: [
+                'Description: ' + info.description || '',
+                'Instruction: ' + info.instruction || '',
+                'Category: ' + (info.category.length ? info.category : ['']).map(c => this.getCategoryDescription(c)).join(', '),
+                'Event: ' + this.getEventDescription(this.getEventKey(info, env) || info.event),
+                'Urgency: ' + (info.urgency || 'Unknown'),
+                'Severity: ' + (info.severity || 'Unknown'),
+                'Certainty: ' + (info.certainty || 'Unknown'),
+                'Response: ' + (info.responseType.join(', ') || 'Unknown'),
+                ...(info.onset ? ['Onset: ' + new Date(info.onset).toLocaleString('en-NZ', { timeZone: 'Pacific/Auckland' }) + ' NZT'] : []),
+                ...(info.expires ? ['Expires: ' + new Date(info.expires).toLocaleString('en-NZ', { timeZone: 'Pacific/Auckland' }) + ' NZT'] : []),
+                '',
+                'Digital Signature',
+                'Status: ' + Task.SIGNATURE_STATUS[alert.signature.status],
+                ...(alert.signature.status !== 'unsigned' ? [
+                    'Subject: ' + (alert.signature.subject || 'Unknown'),
+                    'Issuer: ' + (alert.signature.issuer || 'Unknown'),
+                    'Serial: ' + (alert.signature.serialNumber || 'Unknown'),
+                    'Valid From: ' + (alert.signature.validFrom ? new Date(alert.signature.validFrom).toLocaleDateString('en-NZ', { timeZone: 'Pacific/Auckland' }) : 'Unknown'),
+                    'Valid Until: ' + (alert.signature.validUntil ? new Date(alert.signature.validUntil).toLocaleDateString('en-NZ', { timeZone: 'Pacific/Auckland' }) : 'Unknown'),
+                    'Fingerprint: ' + (alert.signature.fingerprint || 'Unknown')
+                ] : [])
+            ].filter(r => r.trim()).join('\n'),
+            ...(info.web ? {
+                links: [{
+                    uid: id,
+                    relation: 'r-u',
+                    mime: 'text/html',
+                    url: info.web,
+                    remarks: 'CAP Alert Details'
+                }]
+            } : {}),
+            archived: false
+        };
+    }
+
+    private infoFeatures(alert: CAPAlert, info: CAPInfo, featureId: string, env: Static<typeof Environment>): Feature[] {
+        const features: Feature[] = [];
+        
+        // Largest polygon part of the alert, carrying the marker when a single marker per alert is emitted
+        let largest: { area: CAPArea; polygon: number[][][]; size: number } | undefined;
+        
+        // Fall back to an empty area so alerts without one still show up
+        const areas = info.area.length ? info.area : [{ areaDesc: '', polygon: [], circle: [], geocode: [] }];
+        for (let i = 0; i < areas.length; i++) {
+            // Keep the plain ID for single-area alerts so IDs stay stable between runs
+            const areaId = areas.length > 1 ? `${featureId}-area${i}` : featureId;
+            const areaFeatures = this.areaFeatures(alert, info, areas[i], areaId, env);
+            features.push(...areaFeatures);
+            
+            for (const feature of areaFeatures) {
+                const parts = feature.geometry.type === 'Polygon' ? [feature.geometry.coordinates]
+                    : feature.geometry.type === 'MultiPolygon' ? feature.geometry.coordinates : [];
+                for (const polygon of parts) {
+                    const size = this.ringArea(polygon[0]);
+                    if (!largest || size > largest.size) {
+                        largest = { area: areas[i], polygon, size };
+                    }
+                }
+            }
+        }
+        
+        if (env.LabelMarkers === 'Alert' && largest) {
+            features.push(this.markerFeature(alert, info, largest.area, `${featureId}-center`, this.labelPoint(largest.polygon, env), undefined, env));
+        }
+        
+        return features;
+    }
+
+    private markerFeature(
+        alert: CAPAlert,
+        info: CAPInfo,
+        area: CAPArea,
+        id: string,
+        point: number[],
+        metadata: Record<string, unknown> | undefined,
+        env: Static<typeof Environment>
+    ): Feature {
+        console.log(`Adding center point for ${id} at [${point[0]}, ${point[1]}]`);
+        const properties = this.alertProperties(alert, info, area, id, 'Point', env);
+        return {
+            id,
+            type: 'Feature',
+            properties: {
+                ...properties,
+                icon: this.getEventIcon(info, env),
+                metadata: {
+                    ...properties.metadata as Record<string, unknown>,
+                    ...metadata,
+                    isCenter: true
+                }
+            },
+            geometry: {
+                type: 'Point',
+                coordinates: point
+            }
+        };
+    }
+
+    private areaFeatures(alert: CAPAlert, info: CAPInfo, area: CAPArea, areaId: string, env: Static<typeof Environment>): Feature[] {
+        const color = this.getColor(info, env);
+        const features: Feature[] = [];
+        const geometryCount = area.polygon.length + area.circle.length;
+        
+        // Polygons and circles are both drawn as polygon shapes with an icon at their center
+        const shapes: Array<{ id: string; coordinates: number[][][][]; center: number[]; metadata?: Record<string, unknown> }> = [];
+        
+        if (area.polygon.length) {
+            console.log(`Processing ${area.polygon.length} polygon(s) for alert ${areaId}`);
+        }
+        
+        // Process each polygon separately
+        for (let i = 0; i < area.polygon.length; i++) {
+            try {
+                console.log(`Processing polygon ${i + 1}/${area.polygon.length}: ${area.polygon[i].substring(0, 100)}...`);
+                const { coordinates, metadata } = this.cleanPolygon(this.parsePolygonString(area.polygon[i]), env);
+                
+                if (coordinates.length && coordinates[0].length >= 4) {
+                    shapes.push({
+                        id: geometryCount > 1 ? `${areaId}-${i}` : areaId,
+                        coordinates: this.splitAntimeridian(coordinates),
+                        center: this.labelPoint(coordinates, env),
+                        metadata
+                    });
+                }
+            } catch (error) {
+                console.warn(`Invalid polygon data for alert ${areaId}:`, error instanceof Error ? error.message : 'Unknown error');
+            }
+        }
+        
+        // Areas described only by geocodes are drawn from the configured boundary dataset
+        if (!geometryCount && area.geocode.length) {
+            const polygons = this.resolveGeocodes(area.geocode, env);
+            for (let i = 0; i < polygons.length; i++) {
+                // Boundary datasets follow the coastline closely and are simplified like CAP polygons
+                const { coordinates, metadata } = this.cleanPolygon(polygons[i], env);
+                if (!coordinates.length) continue;
+                
+                shapes.push({
+                    id: polygons.length > 1 ? `${areaId}-geocode${i}` : areaId,
+                    coordinates: this.splitAntimeridian(coordinates),
+                    center: this.labelPoint(coordinates, env),
+                    metadata: { geometrySource: 'geocode', ...metadata }
+                });
+            }
+        }
+        
+        for (let i = 0; i < area.circle.length; i++) {
+            const circleData = this.parseCircleString(area.circle[i]);
+            if (!circleData) {
+                console.warn(`Invalid circle data for alert ${areaId}: ${area.circle[i]}`);
+                continue;
+            }
+            
+            shapes.push({
+                id: geometryCount > 1 ? `${areaId}-circle${i}` : areaId,
+                coordinates: this.splitAntimeridian(this.circleToPolygon(circleData.center, circleData.radius, env.CircleVertices)),
+                center: circleData.center,
+                metadata: { radius: circleData.radius }
+            });
+        }
+        
+        // Merge mode draws all shapes of the area as one MultiPolygon with a single marker on its largest part
+        if (env.PolygonMode === 'Merge' && shapes.length > 1) {
+            const parts = shapes.flatMap(shape => shape.coordinates);
+            const largest = parts.reduce((a, b) => this.ringArea(b[0]) > this.ringArea(a[0]) ? b : a);
+            
+            // Vertex counts are totalled over the merged polygons, the metadata of every shape is kept alongside
+            const polygons = shapes.map(shape => shape.metadata || {}).filter(metadata => metadata.originalVertices !== undefined);
+            const originalVertices = polygons.reduce((sum, metadata) => sum + Number(metadata.originalVertices), 0);
+            const vertices = polygons.reduce((sum, metadata) => sum + Number(metadata.vertices ?? metadata.originalVertices), 0);
+            shapes.splice(0, shapes.length, {
+                id: areaId,
+                coordinates: parts,
+                center: this.labelPoint(largest, env),
+                metadata: {
+                    mergedShapes: shapes.length,
+                    ...(polygons.length ? { originalVertices } : {}),
+                    ...(vertices !== originalVertices ? { vertices } : {}),
+                    ...(polygons.some(metadata => metadata.repaired) ? { repaired: true } : {}),
+                    ...(shapes.every(shape => shape.metadata?.geometrySource === 'geocode') ? { geometrySource: 'geocode' } : {}),
+                    shapes: shapes.map(shape => ({ id: shape.id, ...shape.metadata }))
                 }
-            }
+            });
+        }
+        
+        for (const shape of shapes) {
+            const properties = this.alertProperties(alert, info, area, shape.id, 'Polygon', env);
             
-            return {
-                identifier,
-                sender,
-                sent,
-                status,
-                msgType,
-                scope,
-                info: {
-                    category,
-                    event,
-                    urgency,
-                    severity,
-                    certainty,
-                    senderName,
-                    headline,
-                    description,
-                    instruction,
-                    responseType,
-                    onset,
-                    expires,
-                    web,
-                    area: {
-                        areaDesc,
-                        polygon,
-                        circle
+            console.log(`Adding polygon feature: ${shape.id} - ${info.headline}`);
+            features.push({
+                id: shape.id,
+                type: 'Feature',
+                properties: {
+                    ...properties,
+                    metadata: {
+                        ...properties.metadata as Record<string, unknown>,
+                        ...shape.metadata
                     },
-                    colorCode
+                    ...(color ? {
+                        stroke: color,
+                        'stroke-opacity': 0.5,
+                        'stroke-width': 3,
+                        'stroke-style': 'solid',
+                        'fill-opacity': 0.4,
+                        fill: color
+                    } : {})
                 },
-                signature
-            };
-        } catch (error) {
-            console.error('Error parsing CAP XML:', error);
+                // Shapes split at the antimeridian or merged from several shapes are sent as a single MultiPolygon
+                geometry: shape.coordinates.length > 1 ? {
+                    type: 'MultiPolygon',
+                    coordinates: shape.coordinates
+                } : {
+                    type: 'Polygon',
+                    coordinates: shape.coordinates[0]
+                }
+            });
+            
+            // Add center point with icon, a single marker per alert is added by infoFeatures
+            if (env.LabelMarkers === 'Part' && shape.coordinates.length > 1) {
+                for (let j = 0; j < shape.coordinates.length; j++) {
+                    features.push(this.markerFeature(alert, info, area, `${shape.id}-center${j}`, this.labelPoint(shape.coordinates[j], env), shape.metadata, env));
+                }
+            } else if (env.LabelMarkers !== 'Alert') {
+                features.push(this.markerFeature(alert, info, area, `${shape.id}-center`, shape.center, shape.metadata, env));
+            }
+        }
+        
+        if (features.length) {
+            return features;
+        }
+
+        // If no geometry, create a point at center of NZ as fallback
+        const geometry: SupportedGeometry = {
+            type: 'Point',
+            coordinates: [174.0, -41.0] // Approximate center of New Zealand
+        };
+
+        // Handle point geometry
+        const baseStyle = color ? {
+            stroke: color,
+            'stroke-opacity': 0.5019607843137255,
+            'stroke-width': 3,
+            'stroke-style': 'solid',
+            'fill-opacity': 0.5019607843137255,
+            fill: color
+        } : {};
+
+        console.log(`Adding feature: ${areaId} (${geometry.type}) - ${info.headline}`);
+        features.push({
+            id: areaId,
+            type: 'Feature',
+            properties: {
+                ...this.alertProperties(alert, info, area, areaId, 'Point', env),
+                icon: this.getEventIcon(info, env),
+                style: baseStyle
+            },
+            geometry
+        });
+        
+        return features;
+    }
+
+    private filterReason(alert: CAPAlert, info: CAPInfo, filter?: Static<typeof Filter>): string | null {
+        if (!filter) {
             return null;
         }
+        
+        const lists: Array<[string, string[], { Allow?: string[]; Deny?: string[] } | undefined]> = [
+            ['status', [alert.status], filter.Status],
+            ['category', info.category, filter.Category],
+            ['urgency', [info.urgency], filter.Urgency],
+            ['severity', [info.severity], filter.Severity],
+            ['certainty', [info.certainty], filter.Certainty],
+            ['event', [info.event, ...info.eventCode.map(code => code.value)], filter.Event]
+        ];
+        
+        for (const [name, candidates, list] of lists) {
+            if (!list) continue;
+            
+            const matches = (values: string[]) => values.some(v => candidates.some(c => v.toLowerCase() === (c || '').toLowerCase()));
+            if (list.Allow && list.Allow.length && !matches(list.Allow)) return name;
+            if (list.Deny && matches(list.Deny)) return name;
+        }
+        
+        if (filter.MinSeverity) {
+            const rank = (severity: string) => ['Unknown', 'Minor', 'Moderate', 'Severe', 'Extreme'].indexOf(severity);
+            if (Math.max(rank(info.severity), 0) < rank(filter.MinSeverity)) return 'severity';
+        }
+        
+        return null;
     }
 
-    private isCapAlertLink(link: string): boolean {
-        return link.includes('/cap/') || link.includes('alert');
+    private lifecycleState(alert: CAPAlert, info: CAPInfo, env: Static<typeof Environment>): LifecycleState {
+        const now = Date.now();
+        
+        // Alerts take effect at their onset, falling back to the effective and then the sent time
+        const start = new Date(info.onset || info.effective || alert.sent).getTime();
+        if (start > now) {
+            return 'pending';
+        }
+        
+        const expires = info.expires ? new Date(info.expires).getTime() : NaN;
+        if (isNaN(expires)) {
+            return 'active';
+        }
+        if (expires <= now) {
+            return 'expired';
+        }
+        
+        return expires - now <= env.ExpiringWindow ? 'expiring' : 'active';
     }
 
-    private async parseFeed(feedText: string): Promise<string[]> {
-        const links: string[] = [];
+    private retainedUntil(alert: CAPAlert, env: Static<typeof Environment>): number {
+        // Expired alerts are retained until the retention window after their last info block expires
+        const expires = alert.info.map(info => info.expires ? new Date(info.expires).getTime() : NaN);
+        if (!expires.length || expires.some(isNaN)) {
+            return NaN;
+        }
         
-        // RSS format - use matchAll for safer execution with length limits to prevent ReDoS
-        const rssMatches = feedText.matchAll(/<link>([^<]{1,1000})<\/link>/g);
-        for (const match of rssMatches) {
-            const link = match[1].trim();
-            if (this.isCapAlertLink(link)) {
-                links.push(link);
+        return Math.max(...expires) + env.ExpiredRetention;
+    }
+
+    private lifecycleFeature(feature: Feature, state: LifecycleState, info: CAPInfo, env: Static<typeof Environment>): Feature {
+        const shape = feature.geometry.type === 'Polygon' || feature.geometry.type === 'MultiPolygon';
+        const properties: Record<string, unknown> = {
+            ...feature.properties,
+            ...shape ? Task.LIFECYCLE_STYLE[state] : {},
+            metadata: {
+                ...feature.properties.metadata as Record<string, unknown>,
+                state
             }
+        };
+        
+        if (state === 'pending') {
+            properties.callsign = `Pending: ${feature.properties.callsign}`;
+        } else if (state === 'expired') {
+            // Archived features stay on the map until the end of the retention window
+            properties.callsign = `Expired: ${feature.properties.callsign}`;
+            properties.archived = true;
+            properties.stale = new Date(new Date(info.expires as string).getTime() + env.ExpiredRetention).toISOString();
+        }
+        
+        return { ...feature, properties };
+    }
+
+    private rootIdentifier(alert: CAPAlert, chain: FetchCache['chain']): string {
+        if ((alert.msgType !== 'Update' && alert.msgType !== 'Cancel') || !alert.references.length) {
+            return alert.identifier;
         }
         
-        // Atom format - use matchAll for safer execution with length limits to prevent ReDoS
-        const atomMatches = feedText.matchAll(/<link[^>]+href=["']([^"']{1,1000})["'][^>]*>/g);
-        for (const match of atomMatches) {
-            const link = match[1].trim();
-            if (this.isCapAlertLink(link)) {
-                links.push(link);
+        // Reuse the ID of the first alert of the chain so TAK replaces it in place, even when only the latest Update is referenced
+        const [earliest] = [...alert.references].sort((a, b) => (new Date(a.sent).getTime() || 0) - (new Date(b.sent).getTime() || 0));
+        return chain[earliest.identifier]?.root || earliest.identifier;
+    }
+
+    private alertChain(alerts: CAPAlert[], previous: FetchCache['chain'], env: Static<typeof Environment>): FetchCache['chain'] {
+        // Earlier alerts are kept while a current alert references them or they may still be shown
+        const referenced = new Set(alerts.flatMap(alert => alert.references.map(ref => ref.identifier)));
+        const chain: FetchCache['chain'] = {};
+        for (const [identifier, link] of Object.entries(previous)) {
+            if (referenced.has(identifier) || this.retainedUntil(link.alert, env) > Date.now()) {
+                chain[identifier] = link;
             }
         }
         
-        return [...new Set(links)];
+        // Resolve in the order the alerts were sent so an Update finds the root of the alert it updates
+        for (const alert of [...alerts].sort((a, b) => (new Date(a.sent).getTime() || 0) - (new Date(b.sent).getTime() || 0))) {
+            chain[alert.identifier] = { root: this.rootIdentifier(alert, chain), alert };
+        }
+        
+        return chain;
     }
 
-    async schema(
-        type: SchemaType = SchemaType.Input,
-        flow: DataFlowType = DataFlowType.Incoming
-    ): Promise<TSchema> {
-        if (flow === DataFlowType.Incoming) {
-            if (type === SchemaType.Input) {
-                return Environment
-            } else {
-                return Type.Object({})
+    private cancelFeature(feature: Feature, mode: 'Remove' | 'Archive'): Feature {
+        const properties: Record<string, unknown> = {
+            ...feature.properties,
+            callsign: `Cancelled: ${feature.properties.callsign}`,
+            remarks: `CANCELLED\n${feature.properties.remarks}`,
+            metadata: {
+                ...feature.properties.metadata as Record<string, unknown>,
+                cancelled: true
             }
+        };
+        
+        if (mode === 'Archive') {
+            properties.archived = true;
         } else {
-            return Type.Object({})
+            // Expire immediately so TAK clients drop the referenced alert
+            properties.start = new Date().toISOString();
+            properties.stale = properties.start;
         }
+        
+        return { ...feature, properties };
     }
 
-    async control(): Promise<void> {
-        const env = await this.env(Environment);
-
+    private async fetchSource(
+        source: Static<typeof Source>,
+        env: Static<typeof Environment>,
+        cache: FetchCache,
+        next: FetchCache,
+        deadline: number,
+        rejected: RejectedAlert[]
+    ): Promise<CAPAlert[]> {
         const headers: Record<string, string> = {};
-        for (const header of env.Headers || []) {
+        for (const header of [...env.Headers || [], ...source.Headers || []]) {
             headers[header.key] = header.value;
         }
 
-        // Fetch RSS/Atom feed
-        const feedUrl = new URL(env.RSS_URL);
-        const feedRes = await this.fetchWithRetry(feedUrl, headers, env.Timeout, env.Retries);
-        const feedText = await feedRes.text();
-        
-        // Parse feed to get CAP alert URLs
-        const alertUrls = await this.parseFeed(feedText);
-        console.log(`Found ${alertUrls.length} CAP alerts in feed`);
+        // Later sources are not fetched at all once the run deadline has passed
+        if (Date.now() >= deadline) {
+            throw new Error('Run deadline reached before fetching the feed');
+        }
 
-        const fc = {
-            type: 'FeatureCollection' as const,
-            features: [] as Array<{
-                id: string;
-                type: 'Feature';
-                properties: Record<string, unknown>;
-                geometry: SupportedGeometry;
-            }>
+        // Fetch RSS/Atom feed, sending conditional headers from the last time this feed was fetched
+        const cachedFeed = cache.feeds[source.URL];
+        const feedRes = await this.fetchWithRetry(new URL(source.URL), this.conditionalHeaders(headers, cachedFeed), env.Timeout, env.Retries, deadline);
+        const feedUnchanged = feedRes.status === 304 && cachedFeed !== undefined;
+        
+        let entries: FeedEntry[];
+        if (feedUnchanged) {
+            entries = cachedFeed.entries;
+            console.log(`${source.Label} feed not modified, reusing ${entries.length} cached CAP alerts`);
+        } else {
+            // Parse feed to get CAP alert entries
+            entries = await this.parseFeed(await feedRes.text());
+            console.log(`Found ${entries.length} CAP alerts in ${source.Label} feed`);
+            
+            // Feeds drop alerts once they expire, keep showing them as archived features for the retention window
+            if (env.ExpiredRetention && cachedFeed) {
+                const listed = new Set(entries.map(entry => entry.url || entry.id));
+                for (const entry of cachedFeed.entries) {
+                    const alerts = (cache.alerts[entry.url || entry.id]?.alerts || []).map(parsed => parsed.alert);
+                    if (!listed.has(entry.url || entry.id) && alerts.some(alert => alert && this.retainedUntil(alert, env) > Date.now())) {
+                        entries.push({ ...entry, retained: true });
+                    }
+                }
+            }
+        }
+        
+        next.feeds[source.URL] = {
+            etag: feedUnchanged ? cachedFeed.etag : feedRes.headers.get('etag') || undefined,
+            lastModified: feedUnchanged ? cachedFeed.lastModified : feedRes.headers.get('last-modified') || undefined,
+            entries
         };
 
-        // Fetch and process each CAP alert
-        for (const alertUrl of alertUrls) {
+        // Fetch CAP alerts in parallel, alerts of an unchanged feed or entry are taken from the cache without a request
+        let skipped = 0;
+        const fetched = await this.mapWithConcurrency(entries, env.Concurrency, async (entry): Promise<CAPAlert[]> => {
+            const key = entry.url || entry.id;
+            const cached = cache.alerts[key];
             try {
-                const capRes = await this.fetchWithRetry(new URL(alertUrl), headers, env.Timeout, env.Retries);
-                const capXml = await capRes.text();
+                let documents: ParsedAlert[];
+                if (cached && (feedUnchanged || entry.retained || (entry.updated && cached.updated === entry.updated))) {
+                    next.alerts[key] = cached;
+                    documents = cached.alerts;
+                } else if (Date.now() >= deadline && entry.xml === undefined) {
+                    // Fall back to the last known version of the alert, if any
+                    skipped++;
+                    if (!cached) return [];
+                    next.alerts[key] = cached;
+                    documents = cached.alerts;
+                } else {
+                    documents = await this.fetchAlert(entry, headers, env, cache, next, deadline);
+                }
                 
-                const alert = await this.parseXML(capXml);
-                if (!alert) {
-                    continue;
+                // Alerts wrapped together in an envelope are each accepted or rejected on their own
+                const accepted: CAPAlert[] = [];
+                for (const [i, parsed] of documents.entries()) {
+                    const url = documents.length > 1 ? `${key}#${i}` : key;
+                    const alert = this.acceptedAlert(parsed, env);
+                    if (!alert) {
+                        rejected.push({ source: source.Label, url, errors: parsed.errors });
+                        continue;
+                    } else if (parsed.errors.length) {
+                        console.warn(`CAP alert ${url} does not conform to CAP 1.2: ${this.formatIssues(parsed.errors)}`);
+                    }
+                    accepted.push(alert);
                 }
+                
+                return accepted;
+            } catch (error) {
+                console.error(`Error processing CAP alert ${key}:`, error);
+                return [];
+            }
+        });
+        
+        if (skipped) {
+            console.warn(`Run deadline reached, skipped fetching ${skipped} ${source.Label} CAP alerts`);
+        }
+        
+        return fetched
+            .flat()
+            .map(alert => ({ ...alert, source: source.Label }));
+    }
 
-                if (alert.info.expires && new Date(alert.info.expires) < new Date()) {
-                    console.log(`Skipping expired alert ${alert.identifier} (expired: ${alert.info.expires})`);
-                    continue;
+    private cachedSource(source: Static<typeof Source>, env: Static<typeof Environment>, cache: FetchCache, next: FetchCache): CAPAlert[] {
+        const cachedFeed = cache.feeds[source.URL];
+        if (!cachedFeed) {
+            return [];
+        }
+        
+        next.feeds[source.URL] = cachedFeed;
+        const alerts: CAPAlert[] = [];
+        for (const entry of cachedFeed.entries) {
+            const key = entry.url || entry.id;
+            const cached = cache.alerts[key];
+            if (!cached) continue;
+            
+            next.alerts[key] = cached;
+            for (const parsed of cached.alerts) {
+                const alert = this.acceptedAlert(parsed, env);
+                if (alert) alerts.push({ ...alert, source: source.Label });
+            }
+        }
+        
+        return alerts;
+    }
+
+    private alertFeatures(alerts: CAPAlert[], env: Static<typeof Environment>, sources: Array<Static<typeof Source>>, chain: FetchCache['chain']): Feature[] {
+        const aoi = this.parseAreaOfInterest(env.AreaOfInterest);
+        const sourceFilters = new Map(sources.map(source => [source.Label, source.Filter]));
+        const features: Feature[] = [];
+
+        // Count of info blocks dropped by the configured filter, by the field that rejected them
+        const filtered: Record<string, number> = {};
+
+        // Alerts referenced by an Update or Cancel are replaced by it
+        const superseded = new Set<string>();
+        for (const alert of alerts) {
+            if (alert.msgType === 'Update' || alert.msgType === 'Cancel') {
+                for (const ref of alert.references) {
+                    superseded.add(ref.identifier);
                 }
+            }
+        }
 
-                // Create feature from CAP alert
-                let geometry: SupportedGeometry | null = null;
-                
-                if (alert.info.area.polygon) {
-                    try {
-                        // Handle both single polygon string and array of polygon strings
-                        const polygons = Array.isArray(alert.info.area.polygon) ? alert.info.area.polygon : [alert.info.area.polygon];
-                        
-                        console.log(`Processing ${polygons.length} polygon(s) for alert ${alert.identifier}`);
-                        
-                        // Process each polygon separately
-                        for (let i = 0; i < polygons.length; i++) {
-                            console.log(`Processing polygon ${i + 1}/${polygons.length}: ${polygons[i].substring(0, 100)}...`);
-                            const coordinates = this.parsePolygonString(polygons[i]);
-                            
-                            if (coordinates[0].length >= 4) {
-                                const polygonGeometry = {
-                                    type: 'Polygon' as const,
-                                    coordinates
-                                };
-                                
-                                const polygonId = polygons.length > 1 ? `${alert.identifier}-${i}` : alert.identifier;
-                                
-                                const polygonFeature = {
-                                    id: polygonId,
-                                    type: 'Feature' as const,
-                                    properties: {
-                                        callsign: alert.info.headline || 'CAP Alert',
-                                        type: 'a-f-X-i',
-                                        time: new Date(alert.sent).toISOString(),
-                                        start: alert.info.onset ? new Date(alert.info.onset).toISOString() : new Date(alert.sent).toISOString(),
-                                        stale: alert.info.expires ? new Date(alert.info.expires).toISOString() : undefined,
-                                        metadata: {
-                                            sender: alert.sender,
-                                            sent: alert.sent,
-                                            status: alert.status,
-                                            msgType: alert.msgType,
-                                            scope: alert.scope,
-                                            category: alert.info.category,
-                                            event: alert.info.event,
-                                            urgency: alert.info.urgency,
-                                            severity: alert.info.severity,
-                                            certainty: alert.info.certainty,
-                                            senderName: alert.info.senderName,
-                                            headline: alert.info.headline,
-                                            description: alert.info.description,
-                                            instruction: alert.info.instruction,
-                                            responseType: alert.info.responseType,
-                                            onset: alert.info.onset,
-                                            expires: alert.info.expires,
-                                            web: alert.info.web,
-                                            areaDesc: alert.info.area.areaDesc
-                                        },
-                                        remarks: [
-                                            'Description: ' + alert.info.description || '',
-                                            'Instruction: ' + alert.info.instruction || '',
-                                            'Category: ' + this.getCategoryDescription(alert.info.category),
-                                            'Event: ' + this.getEventDescription(alert.info.event),
-                                            'Urgency: ' + (alert.info.urgency || 'Unknown'),
-                                            'Severity: ' + (alert.info.severity || 'Unknown'),
-                                            'Certainty: ' + (alert.info.certainty || 'Unknown'),
-                                            'Response: ' + (alert.info.responseType || 'Unknown'),
-                                            ...(alert.info.onset ? ['Onset: ' + new Date(alert.info.onset).toLocaleString('en-NZ', { timeZone: 'Pacific/Auckland' }) + ' NZT'] : []),
-                                            ...(alert.info.expires ? ['Expires: ' + new Date(alert.info.expires).toLocaleString('en-NZ', { timeZone: 'Pacific/Auckland' }) + ' NZT'] : []),
-                                            ...(alert.signature ? [
-                                                '',
-                                                'Digital Signature',
-                                                'Name: ' + (alert.signature.subject || 'Unknown'),
-                                                'Issuer: ' + (alert.signature.issuer || 'Unknown'),
-                                                'Valid Until: ' + (alert.signature.validUntil || 'Unknown'),
-                                                'Fingerprint: ' + (alert.signature.fingerprint || 'Unknown')
-                                            ] : [])
-                                        ].filter(r => r.trim()).join('\n'),
-                                        ...(alert.info.web ? {
-                                            links: [{
-                                                uid: polygonId,
-                                                relation: 'r-u',
-                                                mime: 'text/html',
-                                                url: alert.info.web,
-                                                remarks: 'CAP Alert Details'
-                                            }]
-                                        } : {}),
-                                        ...(alert.info.colorCode ? {
-                                            stroke: alert.info.colorCode,
-                                            'stroke-opacity': 0.5,
-                                            'stroke-width': 3,
-                                            'stroke-style': 'solid',
-                                            'fill-opacity': 0.4,
-                                            fill: alert.info.colorCode
-                                        } : {}),
-                                        archived: false
-                                    },
-                                    geometry: polygonGeometry
-                                };
-                                
-                                console.log(`Adding polygon feature: ${polygonId} - ${alert.info.headline}`);
-                                fc.features.push(polygonFeature);
-                                
-                                // Add center point with icon
-                                const centroid = this.calculatePolygonCentroid(coordinates);
-                                console.log(`Adding center point for ${polygonId} at [${centroid[0]}, ${centroid[1]}]`);
-                                const centerFeature = {
-                                    id: `${polygonId}-center`,
-                                    type: 'Feature' as const,
-                                    properties: {
-                                        callsign: alert.info.headline || 'CAP Alert',
-                                        type: 'a-f-X-i',
-                                        time: new Date(alert.sent).toISOString(),
-                                        start: alert.info.onset ? new Date(alert.info.onset).toISOString() : new Date(alert.sent).toISOString(),
-                                        stale: alert.info.expires ? new Date(alert.info.expires).toISOString() : undefined,
-                                        icon: this.getEventIcon(alert.info.event, alert.info.category, alert.info.severity, alert.info.headline),
-                                        metadata: {
-                                            ...polygonFeature.properties.metadata,
-                                            isCenter: true
-                                        },
-                                        remarks: polygonFeature.properties.remarks,
-                                        ...(alert.info.web ? {
-                                            links: [{
-                                                uid: `${polygonId}-center`,
-                                                relation: 'r-u',
-                                                mime: 'text/html',
-                                                url: alert.info.web,
-                                                remarks: 'CAP Alert Details'
-                                            }]
-                                        } : {}),
-                                        archived: false
-                                    },
-                                    geometry: {
-                                        type: 'Point' as const,
-                                        coordinates: centroid
-                                    }
-                                };
-                                fc.features.push(centerFeature);
-                            }
-                        }
-                        continue; // Skip the rest of the processing for this alert
-                    } catch (error) {
-                        console.warn(`Invalid polygon data for alert ${alert.identifier}:`, error instanceof Error ? error.message : 'Unknown error');
+        for (const cachedAlert of alerts) {
+            if (superseded.has(cachedAlert.identifier)) {
+                console.log(`Skipping superseded alert ${cachedAlert.identifier}`);
+                continue;
+            }
+
+            // A Cancel usually carries no info of its own, retire the features of the latest alert it cancels instead
+            const cancelled = cachedAlert.msgType === 'Cancel' && !cachedAlert.info.length ? cachedAlert.references
+                .map(ref => chain[ref.identifier]?.alert)
+                .filter((ref): ref is CAPAlert => ref !== undefined && ref.info.length > 0)
+                .sort((a, b) => (new Date(a.sent).getTime() || 0) - (new Date(b.sent).getTime() || 0))
+                .pop() : undefined;
+
+            // Trust and certificate expiry are evaluated every run as they can change without the alert changing
+            const alert = {
+                ...cachedAlert,
+                info: cancelled ? cancelled.info : cachedAlert.info,
+                signature: { ...cachedAlert.signature, status: this.signatureStatus(cachedAlert.signature, env) }
+            };
+            if (env.RequireValidSignature && alert.signature.status !== 'valid') {
+                console.log(`Skipping alert ${alert.identifier} with ${alert.signature.status} signature`);
+                filtered.signature = (filtered.signature || 0) + 1;
+                continue;
+            }
+
+            try {
+                const rootId = chain[alert.identifier]?.root || alert.identifier;
+                const infos = this.selectInfos(alert.info, env.Language);
+
+                if (alert.msgType === 'Cancel' && !infos.length) {
+                    console.log(`Cancel ${alert.identifier} carries no area, unable to retire ${rootId}`);
+                }
+
+                for (const info of infos) {
+                    const reason = this.filterReason(alert, info, env.Filter) || this.filterReason(alert, info, alert.source ? sourceFilters.get(alert.source) : undefined);
+                    if (reason) {
+                        filtered[reason] = (filtered[reason] || 0) + 1;
+                        continue;
+                    }
+
+                    const state = this.lifecycleState(alert, info, env);
+                    if (state === 'expired' && new Date(info.expires as string).getTime() + env.ExpiredRetention <= Date.now()) {
+                        console.log(`Skipping expired alert ${alert.identifier} (expired: ${info.expires})`);
+                        continue;
+                    }
+
+                    // Keep the plain identifier for single-info alerts, index by position in the original alert otherwise
+                    const featureId = infos.length > 1 ? `${rootId}-info${alert.info.indexOf(info)}` : rootId;
+                    const blockFeatures = this.infoFeatures(alert, info, featureId, env).map(feature => this.lifecycleFeature(feature, state, info, env));
+
+                    // Only drop info blocks with a known area that lies completely outside the area of interest
+                    const polygons = blockFeatures.flatMap(f => f.geometry.type === 'Polygon' ? [f.geometry.coordinates]
+                        : f.geometry.type === 'MultiPolygon' ? f.geometry.coordinates : []);
+                    if (aoi.length && polygons.length && !polygons.some(p => aoi.some(a => this.polygonsIntersect(p, a)))) {
+                        filtered.area = (filtered.area || 0) + 1;
+                        continue;
                     }
-                } else if (alert.info.area.circle) {
-                    const circleData = this.parseCircleString(alert.info.area.circle);
-                    if (circleData) {
-                        geometry = {
-                            type: 'Point',
-                            coordinates: circleData.center
-                        };
+
+                    if (alert.msgType === 'Cancel') {
+                        console.log(`Retiring ${featureId} cancelled by ${alert.identifier} (${env.CancelMode})`);
+                        features.push(...blockFeatures.map(feature => this.cancelFeature(feature, env.CancelMode)));
+                    } else {
+                        features.push(...blockFeatures);
                     }
                 }
+            } catch (error) {
+                console.error(`Error processing CAP alert ${alert.identifier}:`, error);
+            }
+        }
 
-                // If no geometry, create a point at center of NZ as fallback
-                if (!geometry) {
-                    geometry = {
-                        type: 'Point',
-                        coordinates: [174.0, -41.0] // Approximate center of New Zealand
-                    };
+        const filteredTotal = Object.values(filtered).reduce((sum, count) => sum + count, 0);
+        if (filteredTotal) {
+            console.log(`Filtered ${filteredTotal} CAP alerts (${Object.entries(filtered).map(([reason, count]) => `${reason}: ${count}`).join(', ')})`);
+        }
+
+        return features;
+    }
+
+    private async pushedDocuments(body: string, contentType: string): Promise<string[]> {
+        const trimmed = body.trim();
+        
+        // JSON batches are either an array of CAP XML documents or { alerts: [...] }
+        if (contentType.includes('json') || trimmed.startsWith('[') || trimmed.startsWith('{')) {
+            const parsed = JSON.parse(trimmed) as unknown;
+            const documents = Array.isArray(parsed) ? parsed
+                : parsed && typeof parsed === 'object' && 'alerts' in parsed ? parsed.alerts : undefined;
+            if (!Array.isArray(documents)) {
+                throw new Error('Expected a JSON array of CAP XML documents or { "alerts": [...] }');
+            }
+            return documents.filter((d): d is string => typeof d === 'string');
+        }
+        
+        // XML is either a CAP alert, an envelope such as EDXL-DE wrapping CAP alerts, or an RSS/Atom feed embedding several
+        const parsed = new XMLParser({ ignoreAttributes: false, attributeNamePrefix: '@', removeNSPrefix: true }).parse(trimmed);
+        if (!parsed.rss && !parsed.feed) {
+            return this.capDocuments(trimmed).map(document => document.xml);
+        }
+        
+        return (await this.parseFeed(trimmed)).map(entry => entry.xml).filter((xml): xml is string => xml !== undefined);
+    }
+
+    async push(event: HTTPEvent): Promise<HTTPResponse> {
+        const respond = (statusCode: number, body: Record<string, unknown>): HTTPResponse => ({
+            statusCode,
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body)
+        });
+        
+        const method = event.httpMethod || event.requestContext?.http?.method;
+        if (method && method.toUpperCase() !== 'POST') {
+            return respond(405, { message: 'Only POST is supported' });
+        }
+        
+        const env = await this.env(Environment);
+        
+        const headers: Record<string, string> = {};
+        for (const [key, value] of Object.entries(event.headers || {})) {
+            if (value !== undefined) headers[key.toLowerCase()] = value;
+        }
+        
+        // Anyone able to reach the endpoint could otherwise put alerts on the map
+        if (!env.WebhookToken) {
+            return respond(503, { message: 'Push mode is disabled, set WebhookToken to enable it' });
+        }
+        
+        const expected = Buffer.from(`Bearer ${env.WebhookToken}`);
+        const provided = Buffer.from(headers.authorization || '');
+        if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+            return respond(401, { message: 'Invalid or missing Authorization token' });
+        }
+        
+        const body = event.isBase64Encoded ? Buffer.from(event.body || '', 'base64').toString('utf8') : event.body || '';
+        
+        let documents: string[];
+        try {
+            documents = await this.pushedDocuments(body, headers['content-type'] || '');
+        } catch (error) {
+            return respond(400, { message: `Unable to read request body: ${error instanceof Error ? error.message : 'Unknown error'}` });
+        }
+        
+        const alerts: CAPAlert[] = [];
+        const rejected: Array<{ index: number; reason: string; errors: ValidationIssue[] }> = [];
+        for (let i = 0; i < documents.length; i++) {
+            for (const parsed of await this.parseXML(documents[i])) {
+                const alert = this.acceptedAlert(parsed, env);
+                if (alert) {
+                    alerts.push({ ...alert, source: 'Webhook' });
+                } else {
+                    rejected.push({ index: i, reason: 'Not a valid CAP alert', errors: parsed.errors });
                 }
+            }
+        }
+        
+        if (!alerts.length) {
+            return respond(400, { message: 'No valid CAP alerts in request', rejected });
+        }
+        
+        try {
+            await this.loadBoundaries(env);
+        } catch (error) {
+            console.error(`Error loading boundaries from ${env.BoundaryURL}:`, error);
+        }
+        
+        // Pushed alerts join the chains of fetched alerts so Updates and Cancels replace the same features
+        const cache = await this.loadCache();
+        cache.chain = { ...cache.chain, ...this.alertChain(alerts, cache.chain, env) };
+        await this.saveCache(cache);
+        
+        const fc = {
+            type: 'FeatureCollection' as const,
+            features: this.alertFeatures(alerts, env, [], cache.chain)
+        };
+        
+        console.log(`ok - pushed ${alerts.length} CAP alerts as ${fc.features.length} CAP-NZ features`);
+        await this.submit(fc);
+        
+        return respond(200, {
+            accepted: alerts.map(alert => alert.identifier),
+            rejected,
+            features: fc.features.length
+        });
+    }
 
-                // Handle circle or point geometry
-                const baseStyle = alert.info.colorCode ? {
-                    stroke: alert.info.colorCode,
-                    'stroke-opacity': 0.5019607843137255,
-                    'stroke-width': 3,
-                    'stroke-style': 'solid',
-                    'fill-opacity': 0.5019607843137255,
-                    fill: alert.info.colorCode
-                } : {};
-
-                const feature = {
-                    id: alert.identifier,
-                    type: 'Feature' as const,
-                    properties: {
-                        callsign: alert.info.headline || 'CAP Alert',
-                        type: 'a-f-X-i',
-                        time: new Date(alert.sent).toISOString(),
-                        start: alert.info.onset ? new Date(alert.info.onset).toISOString() : new Date(alert.sent).toISOString(),
-                        stale: alert.info.expires ? new Date(alert.info.expires).toISOString() : undefined,
-                        icon: this.getEventIcon(alert.info.event, alert.info.category, alert.info.severity, alert.info.headline),
-                        metadata: {
-                            sender: alert.sender,
-                            sent: alert.sent,
-                            status: alert.status,
-                            msgType: alert.msgType,
-                            scope: alert.scope,
-                            category: alert.info.category,
-                            event: alert.info.event,
-                            urgency: alert.info.urgency,
-                            severity: alert.info.severity,
-                            certainty: alert.info.certainty,
-                            senderName: alert.info.senderName,
-                            headline: alert.info.headline,
-                            description: alert.info.description,
-                            instruction: alert.info.instruction,
-                            responseType: alert.info.responseType,
-                            onset: alert.info.onset,
-                            expires: alert.info.expires,
-                            web: alert.info.web,
-                            areaDesc: alert.info.area.areaDesc
-                        },
-                        remarks: [
-                            'Description: ' + alert.info.description || '',
-                            'Instruction: ' + alert.info.instruction || '',
-                            'Category: ' + this.getCategoryDescription(alert.info.category),
-                            'Event: ' + this.getEventDescription(alert.info.event),
-                            'Urgency: ' + (alert.info.urgency || 'Unknown'),
-                            'Severity: ' + (alert.info.severity || 'Unknown'),
-                            'Certainty: ' + (alert.info.certainty || 'Unknown'),
-                            'Response: ' + (alert.info.responseType || 'Unknown'),
-                            ...(alert.info.onset ? ['Onset: ' + new Date(alert.info.onset).toLocaleString('en-NZ', { timeZone: 'Pacific/Auckland' }) + ' NZT'] : []),
-                            ...(alert.info.expires ? ['Expires: ' + new Date(alert.info.expires).toLocaleString('en-NZ', { timeZone: 'Pacific/Auckland' }) + ' NZT'] : []),
-                            ...(alert.signature ? [
-                                '',
-                                'Digital Signature',
-                                'Name: ' + (alert.signature.subject || 'Unknown'),
-                                'Issuer: ' + (alert.signature.issuer || 'Unknown'),
-                                'Valid Until: ' + (alert.signature.validUntil || 'Unknown'),
-                                'Fingerprint: ' + (alert.signature.fingerprint || 'Unknown')
-                            ] : [])
-                        ].filter(r => r.trim()).join('\n'),
-                        ...(alert.info.web ? {
-                            links: [{
-                                uid: alert.identifier,
-                                relation: 'r-u',
-                                mime: 'text/html',
-                                url: alert.info.web,
-                                remarks: 'CAP Alert Details'
-                            }]
-                        } : {}),
-                        style: baseStyle,
-                        archived: false
-                    },
-                    geometry
-                };
+    private capDateTime(date: Date): string {
+        // CAP requires an explicit offset and no fractional seconds, "Z" is not allowed
+        return date.toISOString().replace(/\.\d{3}Z$/, '+00:00');
+    }
+
+    private outgoingFields(properties: Record<string, unknown>): Record<string, string> {
+        const fields: Record<string, string> = {};
+        
+        // Remarks lines in the "Key: Value" form this ETL writes itself, e.g. "Severity: Severe"
+        for (const line of String(properties.remarks || '').split('\n')) {
+            const match = line.match(/^\s*([A-Za-z ]+?)\s*:\s*(.+)$/);
+            if (match) fields[match[1].toLowerCase()] = match[2].trim();
+        }
+        
+        // Metadata from the CAP-NZ incoming flow takes precedence over remarks
+        const metadata = (properties.metadata || {}) as Record<string, unknown>;
+        for (const [key, value] of Object.entries(metadata)) {
+            if (typeof value === 'string' && value) fields[key.toLowerCase()] = value;
+        }
+        
+        return fields;
+    }
+
+    private buildCAPAlert(
+        feature: Feature & { properties: { shape?: { ellipse?: { major: number; minor: number } }; center?: number[] } },
+        env: Static<typeof OutgoingEnvironment>,
+        previous?: IssuedAlert,
+        cancel = false
+    ): IssuedAlert | null {
+        const fields = this.outgoingFields(feature.properties);
+        if (!fields.event && !previous) {
+            return null;
+        }
+        
+        const enumValue = (value: string | undefined, values: string[], fallback: string) => values.find(v => v.toLowerCase() === (value || '').toLowerCase()) || fallback;
+        const pair = (point: number[]) => `${point[1]},${point[0]}`;
+        
+        // TAK circles arrive as polygons with the ellipse kept alongside
+        const area: Record<string, string> = { areaDesc: fields.areadesc || fields.area || String(feature.properties.callsign || 'TAK area') };
+        const ellipse = feature.properties.shape?.ellipse;
+        if (ellipse && ellipse.major === ellipse.minor && feature.properties.center) {
+            area.circle = `${pair(feature.properties.center)} ${ellipse.major / 1000}`;
+        } else if (feature.geometry.type === 'Polygon') {
+            area.polygon = feature.geometry.coordinates[0].map(pair).join(' ');
+        } else if (!cancel) {
+            return null;
+        }
+        
+        const sent = new Date();
+        const stale = feature.properties.stale ? new Date(String(feature.properties.stale)) : undefined;
+        const expires = fields.expires && !isNaN(new Date(fields.expires).getTime()) ? new Date(fields.expires) : stale;
+        // CAP identifiers must not contain spaces, commas or restricted characters
+        const identifier = `${env.Sender}.${feature.id}.${sent.getTime()}`.replace(/[\s,<&]/g, '-');
+        const headline = fields.headline || String(feature.properties.callsign || fields.event || previous?.headline || 'TAK Alert');
+        
+        // Updates and cancels reference every earlier message for the same shape
+        const references = previous ? [previous.references, `${env.Sender},${previous.identifier},${previous.sent}`].filter(Boolean).join(' ') : undefined;
+        
+        const alert = {
+            '@xmlns': 'urn:oasis:names:tc:emergency:cap:1.2',
+            identifier,
+            sender: env.Sender,
+            sent: this.capDateTime(sent),
+            status: env.Status,
+            msgType: cancel ? 'Cancel' : previous ? 'Update' : 'Alert',
+            scope: 'Public',
+            ...(references ? { references } : {}),
+            info: {
+                language: env.Language,
+                category: enumValue(fields.category, Object.keys(Task.CATEGORY_MAP), 'Safety'),
+                event: fields.event || headline,
+                ...(fields.response ? { responseType: fields.response.split(/\s*,\s*/) } : {}),
+                urgency: enumValue(fields.urgency, ['Immediate', 'Expected', 'Future', 'Past', 'Unknown'], 'Unknown'),
+                severity: enumValue(fields.severity, ['Extreme', 'Severe', 'Moderate', 'Minor', 'Unknown'], 'Unknown'),
+                certainty: enumValue(fields.certainty, ['Observed', 'Likely', 'Possible', 'Unlikely', 'Unknown'], 'Unknown'),
+                ...(expires ? { expires: this.capDateTime(expires) } : {}),
+                senderName: env.SenderName,
+                headline,
+                ...(fields.description ? { description: fields.description } : {}),
+                ...(fields.instruction ? { instruction: fields.instruction } : {}),
+                area
+            }
+        };
+        
+        const builder = new XMLBuilder({ ignoreAttributes: false, attributeNamePrefix: '@', format: true });
+        return {
+            identifier,
+            sent: alert.sent,
+            references,
+            expires: expires?.toISOString(),
+            headline,
+            xml: '<?xml version="1.0" encoding="UTF-8"?>\n' + builder.build({ alert })
+        };
+    }
+
+    private buildAtomFeed(issued: IssuedAlert[], env: Static<typeof OutgoingEnvironment>): string {
+        const builder = new XMLBuilder({ ignoreAttributes: false, attributeNamePrefix: '@', format: true });
+        const feed = builder.build({
+            feed: {
+                '@xmlns': 'http://www.w3.org/2005/Atom',
+                id: `urn:cap:${env.Sender}`,
+                title: `${env.SenderName} CAP alerts`,
+                updated: new Date().toISOString(),
+                author: { name: env.SenderName },
+                entry: issued.map((alert, i) => ({
+                    id: `urn:cap:${alert.identifier}`,
+                    title: alert.headline,
+                    updated: new Date(alert.sent).toISOString(),
+                    content: { '@type': 'application/cap+xml', '#text': `@@ALERT${i}@@` }
+                }))
+            }
+        });
+        
+        // Embed the CAP documents verbatim rather than escaped text
+        return '<?xml version="1.0" encoding="UTF-8"?>\n' + feed.replace(/@@ALERT(\d+)@@/g, (_: string, i: string) => issued[Number(i)].xml.replace(/^<\?xml[^>]*\?>\s*/, ''));
+    }
+
+    async outgoing(event: { Records: Array<{ body: string }> }): Promise<boolean> {
+        const env = await this.env(OutgoingEnvironment, DataFlowType.Outgoing);
+        
+        const headers: Record<string, string> = {};
+        for (const header of env.Headers || []) {
+            headers[header.key] = header.value;
+        }
+        
+        const layer = await this.fetchLayer();
+        const ephemeral = layer.incoming?.ephemeral || {};
+        const issued: Record<string, IssuedAlert> = ephemeral.issued ? JSON.parse(ephemeral.issued) : {};
+        
+        const alerts: IssuedAlert[] = [];
+        for (const record of event.Records) {
+            try {
+                const body = JSON.parse(record.body);
+                const feature = (body.geojson || body) as Parameters<Task['buildCAPAlert']>[0];
+                
+                // Deleted shapes cancel the alert previously issued for them
+                const deleted = feature.properties?.type === 't-x-d-d';
+                const uid = deleted ? String((feature.properties.links as Array<{ uid: string }> | undefined)?.[0]?.uid || feature.id) : String(feature.id);
+                const previous = issued[uid]?.cancelled ? undefined : issued[uid];
+                if (deleted && !previous) continue;
+                
+                const alert = this.buildCAPAlert({ ...feature, id: uid }, env, previous, deleted);
+                if (!alert) continue;
+                
+                alerts.push(alert);
+                
+                // Feed readers only learn about the cancel from the feed, so it replaces the alert there
+                issued[uid] = deleted && previous ? { ...alert, expires: previous.expires || alert.expires, cancelled: true } : alert;
+            } catch (error) {
+                console.error('Error converting TAK feature to CAP:', error);
+            }
+        }
+        
+        if (!alerts.length) {
+            return true;
+        }
+        
+        if (env.SinkURL) {
+            for (const alert of alerts) {
+                await this.sendWithRetry(new URL(env.SinkURL), 'POST', { ...headers, 'Content-Type': 'application/cap+xml' }, alert.xml, env.Timeout, env.Retries);
+            }
+        }
+        
+        // Expired alerts, and cancels of alerts that would have expired, drop out of the feed
+        for (const [uid, alert] of Object.entries(issued)) {
+            if (alert.expires && new Date(alert.expires) < new Date()) delete issued[uid];
+        }
+        
+        if (env.FeedURL) {
+            await this.sendWithRetry(new URL(env.FeedURL), 'PUT', { ...headers, 'Content-Type': 'application/atom+xml' }, this.buildAtomFeed(Object.values(issued), env), env.Timeout, env.Retries);
+        }
+        
+        await this.setEphemeral({ ...ephemeral, issued: JSON.stringify(issued) });
+        console.log(`ok - issued ${alerts.length} CAP alerts`);
+        
+        return true;
+    }
+
+    async control(): Promise<void> {
+        const env = await this.env(Environment);
+
+        const sources: Array<Static<typeof Source>> = env.Sources && env.Sources.length ? env.Sources : env.RSS_URL ? [{
+            Label: new URL(env.RSS_URL).hostname,
+            URL: env.RSS_URL
+        }] : [];
+        if (!sources.length) {
+            throw new Error('No CAP feed configured, set RSS_URL or Sources');
+        }
+
+        try {
+            await this.loadBoundaries(env);
+        } catch (error) {
+            console.error(`Error loading boundaries from ${env.BoundaryURL}:`, error);
+        }
+
+        const cache = await this.loadCache();
+        const next: FetchCache = { version: Task.CACHE_VERSION, feeds: {}, alerts: {}, chain: {} };
+
+        const fc = {
+            type: 'FeatureCollection' as const,
+            features: [] as Feature[]
+        };
 
-                console.log(`Adding feature: ${alert.identifier} (${geometry.type}) - ${alert.info.headline}`);
-                fc.features.push(feature);
+        // Alerts published by several sources are only kept once, from the first source listing them
+        const deadline = Date.now() + env.Deadline;
+        const alerts: CAPAlert[] = [];
+        const identifiers = new Set<string>();
+        const rejected: RejectedAlert[] = [];
+        let failed = 0;
+        for (const source of sources) {
+            let fetched: CAPAlert[];
+            try {
+                fetched = await this.fetchSource(source, env, cache, next, deadline, rejected);
             } catch (error) {
-                console.error(`Error processing CAP alert ${alertUrl}:`, error);
+                failed++;
+                console.error(`Error fetching ${source.Label} feed ${source.URL}:`, error);
+                
+                // Keep the alerts last fetched from the feed until it can be fetched again
+                fetched = this.cachedSource(source, env, cache, next);
+                if (next.feeds[source.URL]) {
+                    console.log(`Reusing ${fetched.length} cached CAP alerts of ${source.Label}`);
+                } else if (failed === sources.length && !Object.keys(next.feeds).length) {
+                    throw error;
+                }
+            }
+            
+            for (const alert of fetched) {
+                if (identifiers.has(alert.identifier)) {
+                    console.log(`Skipping duplicate alert ${alert.identifier} from ${source.Label}`);
+                    continue;
+                }
+                identifiers.add(alert.identifier);
+                alerts.push(alert);
+            }
+        }
+
+        next.chain = this.alertChain(alerts, cache.chain, env);
+        await this.saveCache(next);
+
+        // Summarise rejected alerts so publishers can be told what to fix
+        if (rejected.length) {
+            console.warn(`Rejected ${rejected.length} CAP alerts failing ${env.Validation.toLowerCase()} CAP 1.2 validation:`);
+            for (const alert of rejected) {
+                console.warn(`  ${alert.source} ${alert.url}: ${this.formatIssues(alert.errors)}`);
             }
         }
 
+        fc.features.push(...this.alertFeatures(alerts, env, sources, next.chain));
+
         console.log(`ok - obtained ${fc.features.length} CAP-NZ features`);
         await this.submit(fc);
     }
@@ -885,6 +3060,13 @@ export default class Task extends ETL {
 
 await local(new Task(import.meta.url), import.meta.url);
 export async function handler(event: Event = {}) {
-    return await internal(new Task(import.meta.url), event);
+    const task = new Task(import.meta.url);
+    
+    // HTTP events from API Gateway or a Lambda function URL carry pushed CAP alerts
+    if (typeof event === 'object' && event !== null && 'body' in event && ('httpMethod' in event || 'requestContext' in event)) {
+        return await task.push(event as unknown as HTTPEvent);
+    }
+    
+    return await internal(task, event);
 }
 